@@ -0,0 +1,136 @@
+import * as vscode from 'vscode';
+import { createHash } from 'crypto';
+
+interface KeySetting {
+  value: string;
+  target: vscode.ConfigurationTarget;
+  // Scoped to the workspace folder for folder settings
+  config: vscode.WorkspaceConfiguration;
+  // Completes "... contain an API key", e.g. "The workspace settings"
+  label: string;
+}
+
+// Keeps the API key in VS Code's secret storage instead of settings.json
+export class ApiKeyStore implements vscode.Disposable {
+  private static readonly secretKey = 'perpo.apiKey';
+  // Fingerprints of keys in settings the user chose not to move
+  private static readonly declinedKey = 'perpo.apiKeyMigrationDeclined';
+
+  private readonly changeEmitter = new vscode.EventEmitter<void>();
+  public readonly onDidChange = this.changeEmitter.event;
+  private readonly secretListener: vscode.Disposable;
+  private readonly offered = new Set<string>();
+
+  constructor(private secrets: vscode.SecretStorage, private readonly state: vscode.Memento) {
+    this.secretListener = secrets.onDidChange(event => {
+      if (event.key === ApiKeyStore.secretKey) {
+        this.changeEmitter.fire();
+      }
+    });
+  }
+
+  public async get(): Promise<string> {
+    return (await this.secrets.get(ApiKeyStore.secretKey)) ?? '';
+  }
+
+  public async set(apiKey: string): Promise<void> {
+    await this.secrets.store(ApiKeyStore.secretKey, apiKey);
+  }
+
+  public async clear(): Promise<void> {
+    await this.secrets.delete(ApiKeyStore.secretKey);
+  }
+
+  // Moves a key left in the deprecated `perpo.apiKey` setting into secret storage.
+  // Only a key in the user's own settings moves without asking, and only into an
+  // empty store; keys in workspace settings (often committed files) are offered
+  // first, and a setting is only blanked once its value is stored.
+  public async migrateFromSettings(): Promise<boolean> {
+    let migrated = false;
+    for (const setting of this.settingsWithKey()) {
+      const stored = await this.get();
+      if (setting.value === stored) {
+        // Already stored; blanking the user's own copy loses nothing
+        if (setting.target === vscode.ConfigurationTarget.Global) {
+          await setting.config.update('apiKey', undefined, setting.target);
+        }
+      } else if (!stored && setting.target === vscode.ConfigurationTarget.Global) {
+        await this.set(setting.value);
+        await setting.config.update('apiKey', undefined, setting.target);
+        migrated = true;
+      } else {
+        // Not awaited: activation must not wait for the user to answer
+        this.offerMigration(setting, !!stored);
+      }
+    }
+    return migrated;
+  }
+
+  private settingsWithKey(): KeySetting[] {
+    const settings: KeySetting[] = [];
+    const config = vscode.workspace.getConfiguration('perpo');
+    const inspected = config.inspect<string>('apiKey');
+    if (inspected?.globalValue) {
+      settings.push({ value: inspected.globalValue, target: vscode.ConfigurationTarget.Global, config, label: 'Your user settings' });
+    }
+    if (inspected?.workspaceValue) {
+      settings.push({ value: inspected.workspaceValue, target: vscode.ConfigurationTarget.Workspace, config, label: 'The workspace settings' });
+    }
+    for (const folder of vscode.workspace.workspaceFolders ?? []) {
+      const folderConfig = vscode.workspace.getConfiguration('perpo', folder.uri);
+      const value = folderConfig.inspect<string>('apiKey')?.workspaceFolderValue;
+      // In a single-folder workspace the folder's settings are the workspace settings
+      if (value && value !== inspected?.workspaceValue) {
+        settings.push({ value, target: vscode.ConfigurationTarget.WorkspaceFolder, config: folderConfig, label: `The settings of folder ${folder.name}` });
+      }
+    }
+    return settings;
+  }
+
+  // Asks once per key; a declined key is left where it is
+  private async offerMigration(setting: KeySetting, replacesStored: boolean) {
+    const fingerprint = createHash('sha256').update(setting.value).digest('hex').substring(0, 16);
+    const declined = this.state.get<string[]>(ApiKeyStore.declinedKey, []);
+    if (declined.includes(fingerprint) || this.offered.has(fingerprint)) {
+      return;
+    }
+    this.offered.add(fingerprint);
+
+    const selection = await vscode.window.showWarningMessage(
+      replacesStored
+        ? `Perpo: ${setting.label} contain an API key in perpo.apiKey that differs from the one in secret storage. Replace the stored key with it and remove it from the settings?`
+        : `Perpo: ${setting.label} contain an API key in perpo.apiKey. Move it into secret storage and remove it from the settings?`,
+      replacesStored ? 'Replace Stored Key' : 'Move Key',
+      'Leave It'
+    );
+    this.offered.delete(fingerprint);
+    if (selection === 'Leave It') {
+      await this.state.update(ApiKeyStore.declinedKey, [...declined, fingerprint]);
+    } else if (selection) {
+      await this.set(setting.value);
+      await setting.config.update('apiKey', undefined, setting.target);
+    }
+  }
+
+  // Asks for a key in a password input box; resolves to false if the user backs out
+  public async promptForKey(): Promise<boolean> {
+    const apiKey = await vscode.window.showInputBox({
+      title: 'Perpo: Set API Key',
+      prompt: 'Enter the API key for your completion backend. It is kept in VS Code secret storage.',
+      password: true,
+      ignoreFocusOut: true,
+      validateInput: value => value.trim() ? null : 'The API key cannot be empty'
+    });
+    if (!apiKey) {
+      return false;
+    }
+
+    await this.set(apiKey.trim());
+    return true;
+  }
+
+  public dispose() {
+    this.secretListener.dispose();
+    this.changeEmitter.dispose();
+  }
+}
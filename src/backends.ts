@@ -0,0 +1,259 @@
+import axios from 'axios';
+import { FixtureStore } from './fixtures';
+import { RecordingBackend, ReplayBackend } from './replayBackend';
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+export interface ChatRequest {
+  messages: ChatMessage[];
+  maxTokens: number;
+  temperature: number;
+  timeout: number;
+  signal?: AbortSignal;
+  // Called with the token counts the server reports, if it reports any
+  onUsage?: (usage: TokenUsage) => void;
+  // Called with the URLs of the sources a search-backed answer is based on
+  onCitations?: (urls: string[]) => void;
+  // Called when a fallback model answers instead of the one asked
+  onModel?: (model: string) => void;
+}
+
+// Receives the accumulated text after every streamed chunk; return true to stop reading
+export type StreamListener = (text: string) => boolean | void;
+
+interface UsageField {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+}
+
+interface ChatCompletionResponse {
+  choices: Array<{
+    message: {
+      content: string;
+    };
+  }>;
+  usage?: UsageField;
+  citations?: string[];
+}
+
+interface ChatCompletionChunk {
+  choices?: Array<{
+    delta?: {
+      content?: string;
+    };
+  }>;
+  usage?: UsageField;
+  citations?: string[];
+}
+
+function reportUsage(request: ChatRequest, usage: UsageField | undefined) {
+  if (usage && request.onUsage) {
+    request.onUsage({ promptTokens: usage.prompt_tokens ?? 0, completionTokens: usage.completion_tokens ?? 0 });
+  }
+}
+
+// Perplexity lists the sources of search-backed answers in `citations`
+function reportCitations(request: ChatRequest, citations: string[] | undefined) {
+  if (citations && citations.length > 0 && request.onCitations) {
+    request.onCitations(citations);
+  }
+}
+
+export type BackendKind = 'perplexity' | 'openai' | 'local' | 'replay';
+
+export interface BackendSettings {
+  kind: BackendKind;
+  apiKey: string;
+  model: string;
+  baseUrl: string;
+  // Where `replay` reads fixtures from and recording writes them to
+  fixturesDirectory: string;
+  record: boolean;
+}
+
+// Everything the completion logic needs from a model server
+export interface CompletionBackend {
+  readonly name: string;
+  readonly requiresApiKey: boolean;
+  readonly model: string;
+  complete(request: ChatRequest): Promise<string | null>;
+  stream(request: ChatRequest, onText: StreamListener): Promise<string | null>;
+}
+
+export class OpenAICompatibleBackend implements CompletionBackend {
+  public readonly name: string = 'OpenAI-compatible';
+  public readonly requiresApiKey: boolean = true;
+
+  constructor(protected baseUrl: string, protected apiKey: string, public readonly model: string) {}
+
+  protected get endpoint(): string {
+    return `${this.baseUrl.replace(/\/+$/, '')}/chat/completions`;
+  }
+
+  protected buildHeaders(): Record<string, string> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.apiKey) {
+      headers['Authorization'] = `Bearer ${this.apiKey}`;
+    }
+    return headers;
+  }
+
+  protected buildBody(request: ChatRequest, stream: boolean): object {
+    return {
+      model: this.model,
+      messages: request.messages,
+      max_tokens: request.maxTokens,
+      temperature: request.temperature,
+      stream
+    };
+  }
+
+  public async complete(request: ChatRequest): Promise<string | null> {
+    const response = await axios.post<ChatCompletionResponse>(
+      this.endpoint,
+      this.buildBody(request, false),
+      {
+        headers: this.buildHeaders(),
+        timeout: request.timeout,
+        signal: request.signal
+      }
+    );
+
+    reportUsage(request, response.data.usage);
+    reportCitations(request, response.data.citations);
+    return response.data.choices?.[0]?.message?.content?.trim() || null;
+  }
+
+  public async stream(request: ChatRequest, onText: StreamListener): Promise<string | null> {
+    const controller = new AbortController();
+    const abort = () => controller.abort();
+    request.signal?.addEventListener('abort', abort);
+
+    let text = '';
+    // Servers that report usage while streaming send it with the last chunks
+    let usage: UsageField | undefined;
+    let citations: string[] | undefined;
+    try {
+      const response = await axios.post(
+        this.endpoint,
+        this.buildBody(request, true),
+        {
+          headers: this.buildHeaders(),
+          timeout: request.timeout,
+          responseType: 'stream',
+          signal: controller.signal
+        }
+      );
+
+      // Server-sent events: one `data: {...}` line per chunk, terminated by `data: [DONE]`
+      const decoder = new TextDecoder();
+      let buffer = '';
+      for await (const chunk of response.data as AsyncIterable<Uint8Array>) {
+        buffer += decoder.decode(chunk, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop() ?? '';
+
+        for (const line of lines) {
+          const data = this.parseStreamLine(line);
+          if (data === null) {
+            return text.trim() || null;
+          }
+          usage = data.usage ?? usage;
+          if (data.citations && !citations) {
+            citations = data.citations;
+            reportCitations(request, citations);
+          }
+          const delta = data.choices?.[0]?.delta?.content;
+          if (!delta) {
+            continue;
+          }
+
+          text += delta;
+          if (onText(text)) {
+            return text.trim() || null;
+          }
+        }
+      }
+
+      return text.trim() || null;
+    } catch (error) {
+      // Cancelled by the caller after some text already arrived
+      if (axios.isCancel(error) && text) {
+        return text.trim() || null;
+      }
+      throw error;
+    } finally {
+      request.signal?.removeEventListener('abort', abort);
+      controller.abort();
+      reportUsage(request, usage);
+    }
+  }
+
+  // Returns the chunk on one SSE line, or null once the stream is done
+  private parseStreamLine(line: string): ChatCompletionChunk | null {
+    const trimmed = line.trim();
+    if (!trimmed.startsWith('data:')) {
+      return {};
+    }
+
+    const payload = trimmed.substring('data:'.length).trim();
+    if (payload === '[DONE]') {
+      return null;
+    }
+
+    try {
+      return JSON.parse(payload) as ChatCompletionChunk;
+    } catch {
+      return {};
+    }
+  }
+}
+
+export class PerplexityBackend extends OpenAICompatibleBackend {
+  public readonly name = 'Perplexity';
+
+  constructor(apiKey: string, model: string) {
+    super('https://api.perplexity.ai', apiKey, model);
+  }
+}
+
+// Ollama and llama.cpp both expose an OpenAI-compatible /v1/chat/completions route
+export class LocalServerBackend extends OpenAICompatibleBackend {
+  public static readonly defaultBaseUrl = 'http://localhost:11434/v1';
+
+  public readonly name = 'Local server';
+  public readonly requiresApiKey = false;
+
+  constructor(baseUrl: string, apiKey: string, model: string) {
+    super(baseUrl || LocalServerBackend.defaultBaseUrl, apiKey, model);
+  }
+}
+
+function createServerBackend(settings: BackendSettings): CompletionBackend {
+  switch (settings.kind) {
+    case 'openai':
+      return new OpenAICompatibleBackend(settings.baseUrl || 'https://api.openai.com/v1', settings.apiKey, settings.model);
+    case 'local':
+      return new LocalServerBackend(settings.baseUrl, settings.apiKey, settings.model);
+    default:
+      return new PerplexityBackend(settings.apiKey, settings.model);
+  }
+}
+
+export function createBackend(settings: BackendSettings): CompletionBackend {
+  const fixtures = new FixtureStore(settings.fixturesDirectory);
+  if (settings.kind === 'replay') {
+    return new ReplayBackend(fixtures, settings.model);
+  }
+
+  const backend = createServerBackend(settings);
+  return settings.record ? new RecordingBackend(backend, fixtures, [settings.apiKey]) : backend;
+}
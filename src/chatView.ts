@@ -0,0 +1,378 @@
+import * as vscode from 'vscode';
+import axios from 'axios';
+import { ChatMessage, ChatRequest, CompletionBackend } from './backends';
+import { truncateEnd } from './contextExtractor';
+import { completionSelector, isExcludedFile } from './enablement';
+import { escapeHtml, renderMarkdown } from './markdown';
+import { UsageTracker } from './usageTracker';
+import { ModeSettings, ProjectConfig, PromptMode } from './projectConfig';
+import { logger } from './logger';
+
+interface ChatTurn {
+  question: string;
+  // Which code was attached, e.g. `src/app.ts:10-24`
+  contextLabel?: string;
+  answer: string;
+  citations: string[];
+  error?: string;
+}
+
+type WebviewMessage =
+  | { type: 'ready' }
+  | { type: 'ask'; text: string }
+  | { type: 'stop' }
+  | { type: 'clear' }
+  | { type: 'insert'; code: string }
+  | { type: 'copy'; code: string };
+
+const historyKey = 'perpo.chatHistory';
+const maxStoredTurns = 50;
+// Earlier turns sent along with a question so follow-ups make sense
+const maxHistoryTurns = 6;
+const maxContextTokens = 4000;
+
+const chatDefaults: ModeSettings = {
+  systemPrompt: 'You are Perpo, a programming assistant inside VS Code. Answer questions about the user\'s code accurately and concisely. Format answers in Markdown and put code in fenced blocks tagged with its language.',
+  maxTokens: 1024,
+  temperature: 0.2,
+  timeout: 60000
+};
+
+// Returns the backend for the mode's model, or null while it is not usable (no API key)
+export type BackendSource = (mode: PromptMode) => CompletionBackend | null;
+
+// Chat in the activity bar about the current selection or file. History is kept
+// per workspace; requests go through the same backend settings as inline completions.
+export class ChatViewProvider implements vscode.WebviewViewProvider, vscode.Disposable {
+  public static readonly viewId = 'perpo.chat';
+
+  private view: vscode.WebviewView | undefined;
+  private turns: ChatTurn[];
+  private controller: AbortController | null = null;
+  private readonly disposables: vscode.Disposable[] = [];
+
+  constructor(
+    private readonly storage: vscode.Memento,
+    private readonly usage: UsageTracker,
+    private readonly projectConfig: ProjectConfig,
+    private readonly backendSource: BackendSource
+  ) {
+    this.turns = storage.get<ChatTurn[]>(historyKey, []);
+  }
+
+  public resolveWebviewView(view: vscode.WebviewView) {
+    this.view = view;
+    view.webview.options = { enableScripts: true };
+    view.webview.html = this.buildHtml(view.webview);
+    this.disposables.push(
+      view.webview.onDidReceiveMessage((message: WebviewMessage) => this.handleMessage(message)),
+      view.onDidDispose(() => {
+        this.view = undefined;
+      })
+    );
+  }
+
+  private async handleMessage(message: WebviewMessage) {
+    switch (message.type) {
+      case 'ready':
+        this.postAll();
+        break;
+      case 'ask':
+        await this.ask(message.text);
+        break;
+      case 'stop':
+        this.controller?.abort();
+        break;
+      case 'clear':
+        this.controller?.abort();
+        this.turns = [];
+        await this.save();
+        this.postAll();
+        break;
+      case 'insert':
+        await this.insertAtCursor(message.code);
+        break;
+      case 'copy':
+        await vscode.env.clipboard.writeText(message.code);
+        vscode.window.setStatusBarMessage('Perpo: Code copied', 2000);
+        break;
+    }
+  }
+
+  // Also used by the Explain command, which asks about the selection
+  public async ask(question: string) {
+    question = question.trim();
+    if (!question || this.controller) {
+      return;
+    }
+
+    const backend = this.backendSource('chat');
+    if (!backend) {
+      vscode.window.showWarningMessage('Perpo: Set an API key before using chat.', 'Set API Key').then(selection => {
+        if (selection === 'Set API Key') {
+          vscode.commands.executeCommand('perpo.setApiKey');
+        }
+      });
+      return;
+    }
+
+    const context = this.captureContext();
+    const turn: ChatTurn = { question, contextLabel: context?.label, answer: '', citations: [] };
+    const history = this.turns.filter(previous => previous.answer && !previous.error).slice(-maxHistoryTurns);
+    this.turns.push(turn);
+
+    const controller = new AbortController();
+    this.controller = controller;
+    this.postTurn(turn);
+
+    const settings = this.projectConfig.resolve('chat', vscode.window.activeTextEditor?.document, chatDefaults);
+    const messages: ChatMessage[] = [{ role: 'system', content: settings.systemPrompt }];
+    for (const previous of history) {
+      messages.push({ role: 'user', content: previous.question }, { role: 'assistant', content: previous.answer });
+    }
+    messages.push({ role: 'user', content: context ? `${context.prompt}\n\n${question}` : question });
+
+    const request: ChatRequest = {
+      messages,
+      maxTokens: settings.maxTokens,
+      temperature: settings.temperature,
+      timeout: settings.timeout,
+      signal: controller.signal,
+      onCitations: urls => {
+        turn.citations = urls;
+      }
+    };
+
+    logger.info(`Chat request to ${backend.name} model ${backend.model}`);
+    logger.content('Chat question', messages[messages.length - 1].content);
+    const tracked = this.usage.track(request, backend.model, 'chat');
+
+    try {
+      // `perpo.stream` is off for servers without streaming support; the answer then arrives whole
+      const answer = vscode.workspace.getConfiguration('perpo').get('stream', true)
+        ? await backend.stream(request, text => {
+          turn.answer = text;
+          this.postTurn(turn);
+        })
+        : await backend.complete(request);
+      turn.answer = answer ?? turn.answer;
+      tracked.finish(turn.answer);
+      if (!turn.answer) {
+        turn.error = 'The model returned an empty answer.';
+      }
+      logger.content('Chat answer', turn.answer);
+    } catch (error) {
+      if (!axios.isCancel(error)) {
+        logger.error('Chat request failed:', error);
+        tracked.fail(axios.isAxiosError(error) ? error.response?.status : undefined);
+        turn.error = axios.isAxiosError(error)
+          ? error.response?.data?.error?.message ?? error.message
+          : error instanceof Error ? error.message : String(error);
+      }
+    } finally {
+      this.controller = null;
+    }
+
+    if (controller.signal.aborted && !turn.error) {
+      turn.error = turn.answer ? 'Stopped.' : 'Stopped before an answer arrived.';
+    }
+
+    // Cleared while the answer was streaming
+    if (!this.turns.includes(turn)) {
+      return;
+    }
+    this.turns = this.turns.slice(-maxStoredTurns);
+    await this.save();
+    this.postAll();
+  }
+
+  // The selection if there is one, the whole file otherwise
+  private captureContext(): { label: string; prompt: string } | undefined {
+    const editor = vscode.window.activeTextEditor;
+    if (!editor) {
+      return undefined;
+    }
+
+    const document = editor.document;
+    if (vscode.languages.match(completionSelector, document) === 0 || isExcludedFile(document)) {
+      return undefined;
+    }
+
+    const fileName = vscode.workspace.asRelativePath(document.uri);
+    const selection = editor.selection;
+    const text = truncateEnd(document.getText(selection.isEmpty ? undefined : selection), maxContextTokens * 4);
+    if (!text.trim()) {
+      return undefined;
+    }
+
+    const label = selection.isEmpty ? fileName : `${fileName}:${selection.start.line + 1}-${selection.end.line + 1}`;
+    const description = selection.isEmpty ? `the file ${fileName}` : `lines ${selection.start.line + 1}-${selection.end.line + 1} of ${fileName}`;
+    return {
+      label,
+      prompt: `The question is about ${description}:\n\`\`\`${document.languageId}\n${text}\n\`\`\``
+    };
+  }
+
+  private async insertAtCursor(code: string) {
+    const editor = vscode.window.activeTextEditor;
+    if (!editor) {
+      vscode.window.showWarningMessage('Perpo: Open an editor to insert the code into.');
+      return;
+    }
+    await editor.edit(builder => {
+      for (const selection of editor.selections) {
+        builder.replace(selection, code);
+      }
+    });
+  }
+
+  private save(): Thenable<void> {
+    return this.storage.update(historyKey, this.turns);
+  }
+
+  private postAll() {
+    this.view?.webview.postMessage({
+      type: 'reset',
+      turns: this.turns.map(turn => this.renderTurn(turn)),
+      busy: this.controller !== null
+    });
+  }
+
+  private postTurn(turn: ChatTurn) {
+    const index = this.turns.indexOf(turn);
+    if (index < 0) {
+      return;
+    }
+    this.view?.webview.postMessage({
+      type: 'turn',
+      index,
+      html: this.renderTurn(turn),
+      busy: this.controller !== null
+    });
+  }
+
+  private renderTurn(turn: ChatTurn): string {
+    const context = turn.contextLabel ? `<div class="context">${escapeHtml(turn.contextLabel)}</div>` : '';
+    const answer = turn.answer ? renderMarkdown(turn.answer, turn.citations) : '<p class="muted">…</p>';
+    const error = turn.error ? `<p class="error">${escapeHtml(turn.error)}</p>` : '';
+    const citations = turn.citations.length > 0
+      ? `<ol class="citations">${turn.citations.map(url => `<li><a href="${escapeHtml(url)}">${escapeHtml(url)}</a></li>`).join('')}</ol>`
+      : '';
+
+    return `<div class="question">${escapeHtml(turn.question)}${context}</div>
+<div class="answer">${answer}${citations}${error}</div>`;
+  }
+
+  private buildHtml(webview: vscode.Webview): string {
+    const nonce = Array.from({ length: 32 }, () => Math.floor(Math.random() * 36).toString(36)).join('');
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src ${webview.cspSource} 'unsafe-inline'; script-src 'nonce-${nonce}';">
+<meta name="viewport" content="width=device-width, initial-scale=1.0">
+<style>
+  body { font-family: var(--vscode-font-family); font-size: var(--vscode-font-size); color: var(--vscode-foreground); padding: 0; margin: 0; display: flex; flex-direction: column; height: 100vh; }
+  #turns { flex: 1; overflow-y: auto; padding: 8px 12px; }
+  .question { margin-top: 12px; padding: 6px 8px; border-radius: 4px; background: var(--vscode-input-background); white-space: pre-wrap; }
+  .context { margin-top: 4px; font-size: 0.9em; color: var(--vscode-descriptionForeground); }
+  .answer { margin: 4px 0 12px; line-height: 1.45; }
+  .answer h3, .answer h4, .answer h5, .answer h6 { margin: 10px 0 4px; }
+  .answer blockquote { margin: 4px 0; padding-left: 8px; border-left: 3px solid var(--vscode-textBlockQuote-border); }
+  .answer code { font-family: var(--vscode-editor-font-family); }
+  .code-block { position: relative; margin: 6px 0; background: var(--vscode-textCodeBlock-background); border-radius: 4px; }
+  .code-block pre { margin: 0; padding: 8px; overflow-x: auto; }
+  .code-actions { display: flex; justify-content: flex-end; gap: 4px; padding: 4px 4px 0; }
+  .citations { font-size: 0.9em; color: var(--vscode-descriptionForeground); word-break: break-all; }
+  .citation { text-decoration: none; }
+  .muted { color: var(--vscode-descriptionForeground); }
+  .error { color: var(--vscode-errorForeground); }
+  form { display: flex; flex-direction: column; gap: 6px; padding: 8px 12px; border-top: 1px solid var(--vscode-panel-border); }
+  textarea { resize: vertical; min-height: 48px; font-family: inherit; color: var(--vscode-input-foreground); background: var(--vscode-input-background); border: 1px solid var(--vscode-input-border, transparent); padding: 4px; }
+  .buttons { display: flex; gap: 6px; }
+  button { color: var(--vscode-button-foreground); background: var(--vscode-button-background); border: none; padding: 3px 10px; cursor: pointer; }
+  button:hover { background: var(--vscode-button-hoverBackground); }
+  button.secondary { color: var(--vscode-button-secondaryForeground); background: var(--vscode-button-secondaryBackground); }
+</style>
+</head>
+<body>
+<div id="turns"></div>
+<form id="form">
+  <textarea id="input" placeholder="Ask about the selection or the current file (Enter to send, Shift+Enter for a new line)"></textarea>
+  <div class="buttons">
+    <button type="submit" id="send">Send</button>
+    <button type="button" id="stop" class="secondary" hidden>Stop</button>
+    <button type="button" id="clear" class="secondary">New Chat</button>
+  </div>
+</form>
+<script nonce="${nonce}">
+  const vscode = acquireVsCodeApi();
+  const turns = document.getElementById('turns');
+  const input = document.getElementById('input');
+  const send = document.getElementById('send');
+  const stop = document.getElementById('stop');
+
+  function setBusy(busy) {
+    send.disabled = busy;
+    stop.hidden = !busy;
+  }
+
+  function scrollToEnd() {
+    turns.scrollTop = turns.scrollHeight;
+  }
+
+  window.addEventListener('message', event => {
+    const message = event.data;
+    if (message.type === 'reset') {
+      turns.innerHTML = message.turns.map(html => '<div class="turn">' + html + '</div>').join('');
+    } else if (message.type === 'turn') {
+      let turn = turns.children[message.index];
+      if (!turn) {
+        turn = document.createElement('div');
+        turn.className = 'turn';
+        turns.appendChild(turn);
+      }
+      turn.innerHTML = message.html;
+    }
+    setBusy(message.busy);
+    scrollToEnd();
+  });
+
+  document.getElementById('form').addEventListener('submit', event => {
+    event.preventDefault();
+    const text = input.value.trim();
+    if (text && !send.disabled) {
+      vscode.postMessage({ type: 'ask', text });
+      input.value = '';
+    }
+  });
+
+  input.addEventListener('keydown', event => {
+    if (event.key === 'Enter' && !event.shiftKey) {
+      event.preventDefault();
+      document.getElementById('form').requestSubmit();
+    }
+  });
+
+  stop.addEventListener('click', () => vscode.postMessage({ type: 'stop' }));
+  document.getElementById('clear').addEventListener('click', () => vscode.postMessage({ type: 'clear' }));
+
+  turns.addEventListener('click', event => {
+    const button = event.target.closest('button[data-action]');
+    if (button) {
+      const code = button.closest('.code-block').querySelector('code').textContent;
+      vscode.postMessage({ type: button.dataset.action, code });
+    }
+  });
+
+  vscode.postMessage({ type: 'ready' });
+</script>
+</body>
+</html>`;
+  }
+
+  public dispose() {
+    this.controller?.abort();
+    this.disposables.forEach(disposable => disposable.dispose());
+  }
+}
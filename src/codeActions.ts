@@ -0,0 +1,46 @@
+import * as vscode from 'vscode';
+import { isExcludedFile } from './enablement';
+
+const maxTitleLength = 60;
+
+function shorten(message: string): string {
+  const line = message.split('\n')[0].trim();
+  return line.length > maxTitleLength ? `${line.slice(0, maxTitleLength - 1)}…` : line;
+}
+
+// Offers Perpo fixes in the lightbulb for diagnostics from any source. The actions
+// only run commands; the fix itself is requested and previewed when one is chosen.
+export class FixCodeActionProvider implements vscode.CodeActionProvider {
+  public static readonly providedCodeActionKinds = [vscode.CodeActionKind.QuickFix];
+
+  public provideCodeActions(
+    document: vscode.TextDocument,
+    _range: vscode.Range | vscode.Selection,
+    context: vscode.CodeActionContext
+  ): vscode.CodeAction[] {
+    if (context.diagnostics.length === 0 || isExcludedFile(document)) {
+      return [];
+    }
+
+    // With several problems on the line, the titles tell them apart
+    const actions = context.diagnostics.map(diagnostic => {
+      const title = context.diagnostics.length > 1 ? `Fix with Perpo: ${shorten(diagnostic.message)}` : 'Fix with Perpo';
+      const action = new vscode.CodeAction(title, vscode.CodeActionKind.QuickFix);
+      action.diagnostics = [diagnostic];
+      action.command = { command: 'perpo.fixError', title, arguments: [document.uri, diagnostic] };
+      return action;
+    });
+
+    const fileProblems = vscode.languages.getDiagnostics(document.uri)
+      .filter(diagnostic => diagnostic.severity <= vscode.DiagnosticSeverity.Warning);
+    if (fileProblems.length > 1) {
+      const title = `Fix all ${fileProblems.length} problems in this file with Perpo`;
+      const action = new vscode.CodeAction(title, vscode.CodeActionKind.QuickFix);
+      action.diagnostics = fileProblems;
+      action.command = { command: 'perpo.fixAllErrors', title, arguments: [document.uri] };
+      actions.push(action);
+    }
+
+    return actions;
+  }
+}
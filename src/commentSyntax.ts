@@ -0,0 +1,133 @@
+export interface CommentSyntax {
+  line: string[];
+  block: Array<[string, string]>;
+}
+
+const cStyle: CommentSyntax = { line: ['//'], block: [['/*', '*/']] };
+const hashStyle: CommentSyntax = { line: ['#'], block: [] };
+const dashStyle: CommentSyntax = { line: ['--'], block: [] };
+const markupStyle: CommentSyntax = { line: [], block: [['<!--', '-->']] };
+const percentStyle: CommentSyntax = { line: ['%'], block: [] };
+const semicolonStyle: CommentSyntax = { line: [';'], block: [] };
+
+// Keyed by VS Code language ID
+const syntaxes: Record<string, CommentSyntax> = {
+  javascript: cStyle,
+  javascriptreact: cStyle,
+  typescript: cStyle,
+  typescriptreact: cStyle,
+  java: cStyle,
+  c: cStyle,
+  cpp: cStyle,
+  csharp: cStyle,
+  go: cStyle,
+  rust: cStyle,
+  swift: cStyle,
+  kotlin: cStyle,
+  scala: cStyle,
+  dart: cStyle,
+  groovy: cStyle,
+  'objective-c': cStyle,
+  jsonc: cStyle,
+  less: cStyle,
+  scss: cStyle,
+  css: { line: [], block: [['/*', '*/']] },
+  php: { line: ['//', '#'], block: [['/*', '*/']] },
+  python: { line: ['#'], block: [['"""', '"""'], ["'''", "'''"]] },
+  ruby: { line: ['#'], block: [['=begin', '=end']] },
+  shellscript: hashStyle,
+  perl: hashStyle,
+  r: hashStyle,
+  yaml: hashStyle,
+  toml: hashStyle,
+  dockerfile: hashStyle,
+  makefile: hashStyle,
+  elixir: hashStyle,
+  julia: hashStyle,
+  coffeescript: hashStyle,
+  powershell: { line: ['#'], block: [['<#', '#>']] },
+  sql: { line: ['--'], block: [['/*', '*/']] },
+  lua: { line: ['--'], block: [['--[[', ']]']] },
+  haskell: { line: ['--'], block: [['{-', '-}']] },
+  elm: dashStyle,
+  ada: dashStyle,
+  html: markupStyle,
+  xml: markupStyle,
+  markdown: markupStyle,
+  vue: { line: ['//'], block: [['<!--', '-->'], ['/*', '*/']] },
+  svelte: { line: ['//'], block: [['<!--', '-->'], ['/*', '*/']] },
+  latex: percentStyle,
+  tex: percentStyle,
+  matlab: percentStyle,
+  erlang: percentStyle,
+  clojure: semicolonStyle,
+  lisp: semicolonStyle,
+  scheme: semicolonStyle,
+  ini: { line: [';', '#'], block: [] },
+  vb: { line: ["'"], block: [] }
+};
+
+// Languages we know nothing about most likely use one of these
+const fallback: CommentSyntax = { line: ['//', '#'], block: [['/*', '*/']] };
+
+export function getCommentSyntax(languageId: string): CommentSyntax {
+  return syntaxes[languageId] ?? fallback;
+}
+
+// Returns the text of a comment on the given line, or null if the line is not a comment
+export function getCommentText(line: string, languageId: string): string | null {
+  const trimmed = line.trim();
+  const syntax = getCommentSyntax(languageId);
+
+  // A shebang is not a comment anyone wrote
+  if (trimmed.startsWith('#!')) {
+    return null;
+  }
+
+  // Longest openers first so `--[[` wins over `--`
+  const blocks = [...syntax.block].sort((a, b) => b[0].length - a[0].length);
+  for (const [open, close] of blocks) {
+    if (trimmed.startsWith(open)) {
+      // `/**` and `/*!` doc comments open with extra characters
+      let text = trimmed.substring(open.length).replace(/^[*!]+/, '');
+      if (text.endsWith(close)) {
+        text = text.substring(0, text.length - close.length);
+      }
+      return text.trim();
+    }
+  }
+
+  const lines = [...syntax.line].sort((a, b) => b.length - a.length);
+  for (const open of lines) {
+    if (trimmed.startsWith(open)) {
+      // `///`, `//!` and `##` are still plain comments
+      const repeated = open[open.length - 1];
+      let text = trimmed.substring(open.length);
+      while (text.startsWith(repeated) || text.startsWith('!')) {
+        text = text.substring(1);
+      }
+      return text.trim();
+    }
+  }
+
+  return null;
+}
+
+// Extracts a generation request from a comment line. With a marker such as
+// `perpo:`, only comments that start with it count as requests.
+export function extractPrompt(line: string, languageId: string, marker: string): string | null {
+  let text = getCommentText(line, languageId);
+  if (!text) {
+    return null;
+  }
+
+  const trimmedMarker = marker.trim();
+  if (trimmedMarker) {
+    if (!text.toLowerCase().startsWith(trimmedMarker.toLowerCase())) {
+      return null;
+    }
+    text = text.substring(trimmedMarker.length).trim();
+  }
+
+  return text.length > 0 ? text : null;
+}
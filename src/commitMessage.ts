@@ -0,0 +1,299 @@
+import * as vscode from 'vscode';
+import axios from 'axios';
+import { ChatRequest, CompletionBackend } from './backends';
+import { BackendSource } from './chatView';
+import { truncateEnd } from './contextExtractor';
+import { isExcludedUri } from './enablement';
+import { PostProcessStep, extractCodeBlock, runPipeline, stripThinking } from './postProcessing';
+import { ModeSettings, ProjectConfig } from './projectConfig';
+import { UsageTracker } from './usageTracker';
+import { logger } from './logger';
+
+// The parts of the built-in Git extension's API (extensions/git/src/api/git.d.ts) used here
+interface GitChange {
+  readonly uri: vscode.Uri;
+  readonly originalUri: vscode.Uri;
+  readonly status: number;
+}
+
+interface GitRepository {
+  readonly rootUri: vscode.Uri;
+  readonly inputBox: { value: string };
+  readonly state: {
+    readonly HEAD: { readonly name?: string } | undefined;
+    readonly indexChanges: GitChange[];
+  };
+  diffIndexWithHEAD(path: string): Promise<string>;
+}
+
+interface GitExtension {
+  readonly enabled: boolean;
+  getAPI(version: 1): { readonly repositories: GitRepository[] };
+}
+
+// Status values of staged changes in the Git API
+const stagedStatus: Record<number, string> = {
+  0: 'modified',
+  1: 'added',
+  2: 'deleted',
+  3: 'renamed',
+  4: 'copied'
+};
+
+export type CommitConvention = 'conventional' | 'plain';
+
+interface StagedFile {
+  path: string;
+  status: string;
+  // Left out for excluded and generated files
+  diff?: string;
+  note?: string;
+}
+
+const commitDefaults: ModeSettings = {
+  systemPrompt: 'You describe code changes for git commit messages, based only on the diff. Return only what is asked for - no quotes, no markdown, no explanations.',
+  maxTokens: 300,
+  temperature: 0.2,
+  timeout: 60000
+};
+
+// Roughly 3000 tokens of diff per request
+const maxDiffChars = 12000;
+const generatedFilePattern = /(^|\/)(package-lock\.json|yarn\.lock|pnpm-lock\.yaml|Cargo\.lock|poetry\.lock|composer\.lock|Gemfile\.lock|go\.sum)$|\.min\.(js|css)$|\.map$/;
+
+const conventions: Record<CommitConvention, string> = {
+  conventional: 'Follow Conventional Commits: the first line is `type(scope): summary`, where type is one of feat, fix, docs, style, refactor, perf, test, build, ci or chore and the scope is optional. Keep it under 72 characters, in the imperative mood.',
+  plain: 'Start with a summary line of at most 72 characters in the imperative mood, such as "Add retry to the upload client".'
+};
+
+const messagePipeline: PostProcessStep[] = [
+  stripThinking,
+  extractCodeBlock,
+  text => text.trim().replace(/^(["'`])([\s\S]*)\1$/, '$2').trim()
+];
+
+// Writes a commit message for the staged changes into the Source Control input box
+export class CommitMessageGenerator {
+  constructor(
+    private readonly backendSource: BackendSource,
+    private readonly usage: UsageTracker,
+    private readonly projectConfig: ProjectConfig
+  ) {}
+
+  // Run from the Source Control title bar, which passes its SourceControl
+  public async generate(sourceControl?: { rootUri?: vscode.Uri }) {
+    const backend = this.backendSource('commit');
+    if (!backend) {
+      vscode.window.showWarningMessage('Perpo: Set an API key first.', 'Set API Key').then(selection => {
+        if (selection === 'Set API Key') {
+          vscode.commands.executeCommand('perpo.setApiKey');
+        }
+      });
+      return;
+    }
+
+    const repository = await this.pickRepository(sourceControl?.rootUri);
+    if (!repository) {
+      return;
+    }
+    if (repository.state.indexChanges.length === 0) {
+      vscode.window.showInformationMessage('Perpo: Stage the changes to describe first.');
+      return;
+    }
+
+    await vscode.window.withProgress(
+      { location: vscode.ProgressLocation.Notification, title: 'Perpo: Writing commit message…', cancellable: true },
+      async (progress, token) => {
+        const controller = new AbortController();
+        const cancellation = token.onCancellationRequested(() => controller.abort());
+        try {
+          const files = await this.readStagedFiles(repository);
+          const message = await this.writeMessage(backend, repository, files, controller.signal, progress);
+          if (message && !token.isCancellationRequested) {
+            repository.inputBox.value = message;
+          }
+        } catch (error) {
+          if (!axios.isCancel(error)) {
+            logger.error('Commit message generation failed:', error);
+            const message = axios.isAxiosError(error) ? error.response?.data?.error?.message ?? error.message : String(error);
+            vscode.window.showErrorMessage(`Perpo: Could not write a commit message: ${message}`);
+          }
+        } finally {
+          cancellation.dispose();
+        }
+      }
+    );
+  }
+
+  private async pickRepository(rootUri: vscode.Uri | undefined): Promise<GitRepository | undefined> {
+    const extension = vscode.extensions.getExtension<GitExtension>('vscode.git');
+    const git = extension && (extension.isActive ? extension.exports : await extension.activate());
+    if (!git || !git.enabled) {
+      vscode.window.showWarningMessage('Perpo: The built-in Git extension is disabled.');
+      return undefined;
+    }
+
+    const repositories = git.getAPI(1).repositories;
+    if (rootUri) {
+      const match = repositories.find(repository => repository.rootUri.toString() === rootUri.toString());
+      if (match) {
+        return match;
+      }
+    }
+    if (repositories.length <= 1) {
+      if (repositories.length === 0) {
+        vscode.window.showInformationMessage('Perpo: No Git repository is open.');
+      }
+      return repositories[0];
+    }
+
+    // Several repositories: the one holding the active file, or ask
+    const active = vscode.window.activeTextEditor?.document.uri.fsPath;
+    const containing = active && repositories.find(repository => active.startsWith(repository.rootUri.fsPath));
+    if (containing) {
+      return containing;
+    }
+    const picked = await vscode.window.showQuickPick(
+      repositories.map(repository => ({ label: vscode.workspace.asRelativePath(repository.rootUri), repository })),
+      { title: 'Perpo: Which repository?' }
+    );
+    return picked?.repository;
+  }
+
+  // Excluded files are named but never read; generated files only take up space
+  private async readStagedFiles(repository: GitRepository): Promise<StagedFile[]> {
+    return Promise.all(repository.state.indexChanges.map(async change => {
+      const path = vscode.workspace.asRelativePath(change.uri, false);
+      const status = stagedStatus[change.status] ?? 'changed';
+      if (isExcludedUri(change.uri) || isExcludedUri(change.originalUri)) {
+        return { path, status, note: 'contents excluded from Perpo' };
+      }
+      if (generatedFilePattern.test(change.uri.path)) {
+        return { path, status, note: 'generated file' };
+      }
+      return { path, status, diff: await repository.diffIndexWithHEAD(change.uri.fsPath) };
+    }));
+  }
+
+  private async writeMessage(
+    backend: CompletionBackend,
+    repository: GitRepository,
+    files: StagedFile[],
+    signal: AbortSignal,
+    progress: vscode.Progress<{ message?: string }>
+  ): Promise<string | null> {
+    const listing = files.map(file => `- ${file.path} (${file.status}${file.note ? `, ${file.note}` : ''})`).join('\n');
+    const diffs = files.filter(file => file.diff);
+    const totalChars = diffs.reduce((sum, file) => sum + file.diff!.length, 0);
+
+    // Small enough to send whole; otherwise summarize the files in batches first
+    let changes: string;
+    if (totalChars <= maxDiffChars) {
+      changes = `Staged diff:\n\`\`\`diff\n${diffs.map(file => file.diff).join('\n')}\n\`\`\``;
+    } else {
+      const summaries = await this.summarizeFiles(backend, diffs, signal, progress);
+      changes = `Summary of the changes in each file:\n${summaries.join('\n')}`;
+    }
+
+    const convention = vscode.workspace.getConfiguration('perpo').get<CommitConvention>('commitMessage.convention', 'conventional');
+    const instructions = [
+      conventions[convention] ?? conventions.plain,
+      'If the change is not trivial, add a blank line and a short body saying what changed and why, wrapped at 72 characters.'
+    ];
+
+    progress.report({ message: 'Writing the message…' });
+    const message = await this.send(backend, `Write a commit message for these staged changes.
+
+Files:
+${listing}
+
+${changes}
+
+${instructions.join('\n')}`, commitDefaults.maxTokens, signal);
+    return message ? this.addTicket(message, repository.state.HEAD?.name) : null;
+  }
+
+  // Batches of whole files, each under the limit, summarized to one line per file
+  private async summarizeFiles(
+    backend: CompletionBackend,
+    files: StagedFile[],
+    signal: AbortSignal,
+    progress: vscode.Progress<{ message?: string }>
+  ): Promise<string[]> {
+    const batches: StagedFile[][] = [];
+    let size = 0;
+    for (const file of files) {
+      const diff = truncateEnd(file.diff!, maxDiffChars);
+      if (batches.length === 0 || size + diff.length > maxDiffChars) {
+        batches.push([]);
+        size = 0;
+      }
+      batches[batches.length - 1].push({ ...file, diff });
+      size += diff.length;
+    }
+
+    const summaries: string[] = [];
+    for (const [index, batch] of batches.entries()) {
+      progress.report({ message: `Summarizing changes (${index + 1} of ${batches.length})…` });
+      const summary = await this.send(backend, `Summarize what changed in each file of this diff, one line per file, as \`path: summary\`.
+
+\`\`\`diff
+${batch.map(file => file.diff).join('\n')}
+\`\`\``, Math.min(1000, 60 * batch.length + 40), signal);
+      summaries.push(summary ?? batch.map(file => `${file.path}: ${file.status}`).join('\n'));
+    }
+    return summaries;
+  }
+
+  private async send(backend: CompletionBackend, prompt: string, maxTokens: number, signal: AbortSignal): Promise<string | null> {
+    const settings = this.projectConfig.resolve('commit', undefined, { ...commitDefaults, maxTokens });
+    const request: ChatRequest = {
+      messages: [
+        { role: 'system', content: settings.systemPrompt },
+        { role: 'user', content: prompt }
+      ],
+      maxTokens: settings.maxTokens,
+      temperature: settings.temperature,
+      timeout: settings.timeout,
+      signal
+    };
+
+    logger.info(`Commit message: requesting from ${backend.name} model ${backend.model}`);
+    logger.content('Commit message request', prompt);
+    const tracked = this.usage.track(request, backend.model, 'commit');
+    let response: string | null;
+    try {
+      response = await backend.complete(request);
+    } catch (error) {
+      if (!axios.isCancel(error)) {
+        tracked.fail(axios.isAxiosError(error) ? error.response?.status : undefined);
+      }
+      throw error;
+    }
+    tracked.finish(response);
+    logger.content('Commit message response', response ?? '');
+
+    const cleaned = response ? runPipeline(response, { languageId: 'git-commit', prefix: '', suffix: '' }, messagePipeline) : '';
+    return cleaned || null;
+  }
+
+  // A ticket ID in the branch name, like feature/ABC-123-login, goes in front of the message
+  private addTicket(message: string, branch: string | undefined): string {
+    const config = vscode.workspace.getConfiguration('perpo');
+    const pattern = config.get('commitMessage.ticketPattern', '[A-Z][A-Z0-9]+-\\d+');
+    if (!pattern || !branch) {
+      return message;
+    }
+
+    let ticket: string | undefined;
+    try {
+      ticket = new RegExp(pattern).exec(branch)?.[0];
+    } catch {
+      logger.warn(`Invalid perpo.commitMessage.ticketPattern: ${pattern}`);
+    }
+    if (!ticket || message.includes(ticket)) {
+      return message;
+    }
+    return config.get('commitMessage.ticketFormat', '{ticket}: ').replace('{ticket}', ticket) + message;
+  }
+}
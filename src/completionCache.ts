@@ -0,0 +1,117 @@
+import * as vscode from 'vscode';
+import { createHash } from 'crypto';
+
+// Where a cached suggestion was shown, so it can be found again while the user types it out
+interface CompletionAnchor {
+  uri: string;
+  offset: number;
+  before: string;
+  after: string;
+}
+
+interface CacheEntry {
+  completion: string;
+  timestamp: number;
+  anchor?: CompletionAnchor;
+}
+
+export class CompletionCache {
+  private static readonly anchorLength = 200;
+
+  // Map iteration order doubles as the LRU order: oldest first
+  private entries = new Map<string, CacheEntry>();
+
+  constructor(
+    private readonly maxEntries = 200,
+    private readonly ttl = 5 * 60 * 1000 // 5 minutes
+  ) {}
+
+  public static createKey(...parts: string[]): string {
+    return createHash('sha256').update(JSON.stringify(parts)).digest('hex');
+  }
+
+  public get(key: string): string | null {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return null;
+    }
+
+    if (this.isExpired(entry)) {
+      this.entries.delete(key);
+      return null;
+    }
+
+    this.touch(key, entry);
+    return entry.completion;
+  }
+
+  public set(key: string, completion: string, document?: vscode.TextDocument, position?: vscode.Position): void {
+    const anchor = document && position ? this.createAnchor(document, position) : undefined;
+    this.touch(key, { completion, timestamp: Date.now(), anchor });
+
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+  }
+
+  // If the user has typed the start of a suggestion shown at an earlier position,
+  // returns the part of it that has not been typed yet
+  public getTypedThrough(document: vscode.TextDocument, position: vscode.Position): string | null {
+    const uri = document.uri.toString();
+    const offset = document.offsetAt(position);
+    const after = this.getTextAfter(document, position);
+
+    const candidates = [...this.entries].reverse();
+    for (const [key, entry] of candidates) {
+      const anchor = entry.anchor;
+      if (!anchor || anchor.uri !== uri || anchor.after !== after || this.isExpired(entry)) {
+        continue;
+      }
+
+      const typedLength = offset - anchor.offset;
+      if (typedLength <= 0 || typedLength >= entry.completion.length) {
+        continue;
+      }
+
+      const typed = entry.completion.substring(0, typedLength);
+      const start = document.positionAt(anchor.offset - anchor.before.length);
+      if (document.getText(new vscode.Range(start, position)) === anchor.before + typed) {
+        this.touch(key, entry);
+        return entry.completion.substring(typedLength);
+      }
+    }
+
+    return null;
+  }
+
+  public clear(): void {
+    this.entries.clear();
+  }
+
+  private touch(key: string, entry: CacheEntry): void {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+  }
+
+  private isExpired(entry: CacheEntry): boolean {
+    return Date.now() - entry.timestamp >= this.ttl;
+  }
+
+  private createAnchor(document: vscode.TextDocument, position: vscode.Position): CompletionAnchor {
+    const offset = document.offsetAt(position);
+    const start = document.positionAt(Math.max(0, offset - CompletionCache.anchorLength));
+
+    return {
+      uri: document.uri.toString(),
+      offset,
+      before: document.getText(new vscode.Range(start, position)),
+      after: this.getTextAfter(document, position)
+    };
+  }
+
+  private getTextAfter(document: vscode.TextDocument, position: vscode.Position): string {
+    const end = document.positionAt(document.offsetAt(position) + CompletionCache.anchorLength);
+    return document.getText(new vscode.Range(position, end));
+  }
+}
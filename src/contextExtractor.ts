@@ -0,0 +1,214 @@
+import * as vscode from 'vscode';
+import { logger } from './logger';
+
+export interface CursorContext {
+  prefix: string;
+  suffix: string;
+  // Import lines of the file, which tell the model what is in scope
+  imports: string;
+  // Header of the class or other declaration around the enclosing function
+  enclosingSignature: string;
+  // Definitions and similar code from other files, added by the cross-file gatherer
+  related?: RelatedSnippet[];
+}
+
+export interface RelatedSnippet {
+  fileName: string;
+  text: string;
+}
+
+interface Scope {
+  start: number;
+  end: number;
+  containerLine?: number;
+}
+
+const functionKinds = [
+  vscode.SymbolKind.Function,
+  vscode.SymbolKind.Method,
+  vscode.SymbolKind.Constructor
+];
+
+const containerKinds = [
+  vscode.SymbolKind.Class,
+  vscode.SymbolKind.Interface,
+  vscode.SymbolKind.Struct,
+  vscode.SymbolKind.Enum,
+  vscode.SymbolKind.Module,
+  vscode.SymbolKind.Namespace
+];
+
+const importPattern = /^\s*(import\b|from\s+\S+\s+import\b|#\s*include\b|using\s+[\w.]+\s*;|use\s+[\w:\\]+|require\b|package\s+[\w.]+|library\s*\(|(const|let|var)\s+.+=\s*require\s*\()/;
+
+const symbolTimeout = 500;
+const fallbackLines = 15;
+const maxImportLines = 40;
+
+// Roughly four characters per token for code
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+// Extracts the enclosing function or class around the cursor, split at the cursor,
+// plus the file's imports, all trimmed to fit `maxTokens`
+export async function extractContext(
+  document: vscode.TextDocument,
+  position: vscode.Position,
+  maxTokens: number
+): Promise<CursorContext> {
+  const scope = await findSymbolScope(document, position) ?? findIndentationScope(document, position);
+  logger.debug(`Context scope: lines ${scope.start}-${scope.end}`);
+
+  const prefix = document.getText(new vscode.Range(scope.start, 0, position.line, position.character));
+  const suffix = document.getText(new vscode.Range(position, document.lineAt(scope.end).range.end));
+  const enclosingSignature = scope.containerLine !== undefined ? document.lineAt(scope.containerLine).text.trim() : '';
+  const imports = collectImports(document, Math.min(scope.start, position.line));
+
+  // Most of the budget goes to the code right before the cursor
+  const budget = Math.max(200, maxTokens) * 4;
+  const trimmedImports = truncateEnd(imports, Math.floor(budget * 0.15));
+  const suffixBudget = Math.floor((budget - trimmedImports.length) * 0.25);
+  const trimmedSuffix = truncateEnd(suffix, suffixBudget);
+  const trimmedPrefix = truncateStart(prefix, budget - trimmedImports.length - trimmedSuffix.length - enclosingSignature.length);
+
+  return {
+    prefix: trimmedPrefix,
+    suffix: trimmedSuffix,
+    imports: trimmedImports,
+    enclosingSignature
+  };
+}
+
+async function findSymbolScope(document: vscode.TextDocument, position: vscode.Position): Promise<Scope | undefined> {
+  let symbols: Array<vscode.DocumentSymbol | vscode.SymbolInformation> | undefined;
+  try {
+    // Language servers can be slow to start; don't hold the completion up for them
+    symbols = await Promise.race([
+      vscode.commands.executeCommand<Array<vscode.DocumentSymbol | vscode.SymbolInformation>>(
+        'vscode.executeDocumentSymbolProvider',
+        document.uri
+      ),
+      new Promise<undefined>(resolve => setTimeout(() => resolve(undefined), symbolTimeout))
+    ]);
+  } catch (error) {
+    logger.debug('Document symbol provider failed:', error);
+    return undefined;
+  }
+  if (!symbols || symbols.length === 0) {
+    return undefined;
+  }
+
+  // Innermost-last chain of symbols containing the cursor
+  const chain: Array<{ kind: vscode.SymbolKind; range: vscode.Range }> = [];
+  if ('children' in symbols[0]) {
+    let level = symbols as vscode.DocumentSymbol[];
+    for (;;) {
+      const next = level.find(symbol => symbol.range.contains(position));
+      if (!next) {
+        break;
+      }
+      chain.push(next);
+      level = next.children;
+    }
+  } else {
+    // Flat symbol lists: nesting follows from the ranges
+    (symbols as vscode.SymbolInformation[])
+      .filter(symbol => symbol.location.range.contains(position))
+      .sort((a, b) => b.location.range.end.line - b.location.range.start.line - (a.location.range.end.line - a.location.range.start.line))
+      .forEach(symbol => chain.push({ kind: symbol.kind, range: symbol.location.range }));
+  }
+
+  const fn = [...chain].reverse().find(symbol => functionKinds.includes(symbol.kind));
+  const containers = chain.filter(symbol => containerKinds.includes(symbol.kind));
+  const container = containers[containers.length - 1];
+
+  if (fn) {
+    const containerLine = container && container.range.start.line < fn.range.start.line ? container.range.start.line : undefined;
+    return { start: fn.range.start.line, end: fn.range.end.line, containerLine };
+  }
+  if (container) {
+    return { start: container.range.start.line, end: container.range.end.line };
+  }
+  return undefined;
+}
+
+// Fallback without a symbol provider: the block whose header is the nearest less-indented line
+function findIndentationScope(document: vscode.TextDocument, position: vscode.Position): Scope {
+  const indentOf = (line: number) => {
+    const text = document.lineAt(line).text;
+    return text.length - text.trimStart().length;
+  };
+
+  let cursorLine = position.line;
+  while (cursorLine > 0 && document.lineAt(cursorLine).isEmptyOrWhitespace) {
+    cursorLine--;
+  }
+  const cursorIndent = document.lineAt(position.line).isEmptyOrWhitespace ? position.character : indentOf(cursorLine);
+
+  let start = -1;
+  for (let i = cursorLine; i >= 0; i--) {
+    if (!document.lineAt(i).isEmptyOrWhitespace && indentOf(i) < cursorIndent) {
+      start = i;
+      break;
+    }
+  }
+
+  if (start < 0) {
+    // Top level: a window of lines around the cursor
+    return {
+      start: Math.max(0, position.line - fallbackLines),
+      end: Math.min(document.lineCount - 1, position.line + fallbackLines)
+    };
+  }
+
+  const headerIndent = indentOf(start);
+  let end = position.line;
+  for (let i = position.line + 1; i < document.lineCount; i++) {
+    if (!document.lineAt(i).isEmptyOrWhitespace && indentOf(i) <= headerIndent) {
+      // Keep a closing brace or `end` that belongs to the header
+      end = /^\s*[}\])]|^\s*end\b/.test(document.lineAt(i).text) ? i : i - 1;
+      break;
+    }
+    end = i;
+  }
+
+  return { start, end };
+}
+
+export function isImportLine(text: string): boolean {
+  return importPattern.test(text);
+}
+
+export function getImportLines(document: vscode.TextDocument, beforeLine = document.lineCount): number[] {
+  const lines: number[] = [];
+  for (let i = 0; i < beforeLine && lines.length < maxImportLines; i++) {
+    if (isImportLine(document.lineAt(i).text)) {
+      lines.push(i);
+    }
+  }
+  return lines;
+}
+
+function collectImports(document: vscode.TextDocument, beforeLine: number): string {
+  return getImportLines(document, beforeLine).map(line => document.lineAt(line).text).join('\n');
+}
+
+// Keeps the end of the text, cutting at a line boundary
+export function truncateStart(text: string, maxChars: number): string {
+  if (text.length <= maxChars) {
+    return text;
+  }
+  const cut = text.substring(text.length - Math.max(0, maxChars));
+  const newline = cut.indexOf('\n');
+  return newline >= 0 ? cut.substring(newline + 1) : cut;
+}
+
+// Keeps the start of the text, cutting at a line boundary
+export function truncateEnd(text: string, maxChars: number): string {
+  if (text.length <= maxChars) {
+    return text;
+  }
+  const cut = text.substring(0, Math.max(0, maxChars));
+  const newline = cut.lastIndexOf('\n');
+  return newline >= 0 ? cut.substring(0, newline) : cut;
+}
@@ -0,0 +1,245 @@
+import * as vscode from 'vscode';
+import { CursorContext, RelatedSnippet, estimateTokens, getImportLines, truncateEnd } from './contextExtractor';
+import { completionSelector, isExcludedFile, isLanguageEnabled } from './enablement';
+import { logger } from './logger';
+
+interface ScoredSnippet extends RelatedSnippet {
+  score: number;
+}
+
+const maxRecentFiles = 20;
+const maxDefinitions = 8;
+const maxDefinitionLines = 30;
+const windowLines = 20;
+const windowStride = 10;
+const maxLinesPerFile = 3000;
+const minSimilarity = 0.1;
+const lookupTimeout = 600;
+
+function tokenize(text: string): Set<string> {
+  return new Set(text.match(/[A-Za-z_$][\w$]{2,}/g) ?? []);
+}
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) {
+    return 0;
+  }
+  let shared = 0;
+  a.forEach(token => {
+    if (b.has(token)) {
+      shared++;
+    }
+  });
+  return shared / (a.size + b.size - shared);
+}
+
+function withTimeout<T>(promise: Thenable<T>, fallback: T): Promise<T> {
+  return Promise.race([
+    Promise.resolve(promise).catch(() => fallback),
+    new Promise<T>(resolve => setTimeout(() => resolve(fallback), lookupTimeout))
+  ]);
+}
+
+// Finds code in other files that the model should see: definitions of what the
+// current file imports, and snippets of open or recently edited files that look
+// like the code around the cursor
+export class CrossFileContext implements vscode.Disposable {
+  // URI -> last edit time, most recent last
+  private recentEdits = new Map<string, number>();
+  private readonly changeListener: vscode.Disposable;
+
+  constructor() {
+    this.changeListener = vscode.workspace.onDidChangeTextDocument(event => {
+      if (event.contentChanges.length === 0 || !this.isShareable(event.document)) {
+        return;
+      }
+      const uri = event.document.uri.toString();
+      this.recentEdits.delete(uri);
+      this.recentEdits.set(uri, Date.now());
+      if (this.recentEdits.size > maxRecentFiles) {
+        this.recentEdits.delete(this.recentEdits.keys().next().value as string);
+      }
+    });
+  }
+
+  public async gather(
+    document: vscode.TextDocument,
+    context: CursorContext,
+    maxTokens: number
+  ): Promise<RelatedSnippet[]> {
+    if (maxTokens <= 0) {
+      return [];
+    }
+
+    const region = `${context.prefix.split('\n').slice(-30).join('\n')}${context.suffix.split('\n').slice(0, 10).join('\n')}`;
+    const regionTokens = tokenize(region);
+
+    const [definitions, similar] = await Promise.all([
+      this.findImportedDefinitions(document, regionTokens),
+      this.findSimilarSnippets(document, regionTokens)
+    ]);
+
+    // Definitions of what the code actually uses come first, then the closest matches
+    const candidates = [...definitions, ...similar.sort((a, b) => b.score - a.score)];
+    const packed: RelatedSnippet[] = [];
+    const seen = new Set<string>();
+    let remaining = maxTokens;
+    for (const candidate of candidates) {
+      const key = `${candidate.fileName}\n${candidate.text}`;
+      if (seen.has(key)) {
+        continue;
+      }
+      seen.add(key);
+
+      const cost = estimateTokens(candidate.text) + 10;
+      if (cost <= remaining) {
+        packed.push({ fileName: candidate.fileName, text: candidate.text });
+        remaining -= cost;
+      } else if (remaining > 50 && packed.length === 0) {
+        // Better part of the best snippet than nothing
+        packed.push({ fileName: candidate.fileName, text: truncateEnd(candidate.text, remaining * 4) });
+        remaining = 0;
+      }
+    }
+
+    logger.debug(`Cross-file context: ${packed.length} snippet(s) from ${definitions.length} definition(s) and ${similar.length} similar window(s)`);
+    return packed;
+  }
+
+  // Files Perpo would not complete in are not sent as context for others either
+  private isShareable(document: vscode.TextDocument): boolean {
+    return vscode.languages.match(completionSelector, document) > 0
+      && isLanguageEnabled(document.languageId)
+      && !isExcludedFile(document);
+  }
+
+  // Resolves identifiers imported by the current file that appear near the cursor
+  private async findImportedDefinitions(document: vscode.TextDocument, regionTokens: Set<string>): Promise<ScoredSnippet[]> {
+    const lookups: Array<{ name: string; position: vscode.Position }> = [];
+    for (const line of getImportLines(document)) {
+      const text = document.lineAt(line).text;
+      for (const match of text.matchAll(/[A-Za-z_$][\w$]*/g)) {
+        const name = match[0];
+        if (regionTokens.has(name) && !lookups.some(lookup => lookup.name === name) && lookups.length < maxDefinitions) {
+          lookups.push({ name, position: new vscode.Position(line, match.index ?? 0) });
+        }
+      }
+    }
+
+    const results = await Promise.all(lookups.map(lookup => this.resolveDefinition(document, lookup.name, lookup.position)));
+    return results.filter((snippet): snippet is ScoredSnippet => snippet !== undefined);
+  }
+
+  private async resolveDefinition(
+    document: vscode.TextDocument,
+    name: string,
+    position: vscode.Position
+  ): Promise<ScoredSnippet | undefined> {
+    const definitions = await withTimeout(
+      vscode.commands.executeCommand<Array<vscode.Location | vscode.LocationLink>>(
+        'vscode.executeDefinitionProvider',
+        document.uri,
+        position
+      ),
+      undefined
+    );
+
+    let target: { uri: vscode.Uri; range: vscode.Range } | undefined;
+    for (const definition of definitions ?? []) {
+      const candidate = 'targetUri' in definition
+        ? { uri: definition.targetUri, range: definition.targetRange }
+        : { uri: definition.uri, range: definition.range };
+      if (candidate.uri.toString() !== document.uri.toString()) {
+        target = candidate;
+        break;
+      }
+    }
+
+    // No definition provider: fall back to the workspace symbol index
+    if (!target) {
+      const symbols = await withTimeout(
+        vscode.commands.executeCommand<vscode.SymbolInformation[]>('vscode.executeWorkspaceSymbolProvider', name),
+        undefined
+      );
+      const symbol = symbols?.find(candidate => candidate.name === name && candidate.location.uri.toString() !== document.uri.toString());
+      if (symbol) {
+        target = symbol.location;
+      }
+    }
+    if (!target) {
+      return undefined;
+    }
+
+    try {
+      const targetDocument = await vscode.workspace.openTextDocument(target.uri);
+      if (!this.isShareable(targetDocument)) {
+        return undefined;
+      }
+
+      // A single-line range is just the name; take the lines that follow it as well
+      const start = target.range.start.line;
+      const end = Math.min(
+        targetDocument.lineCount - 1,
+        target.range.end.line > start ? target.range.end.line : start + maxDefinitionLines,
+        start + maxDefinitionLines
+      );
+      return {
+        fileName: vscode.workspace.asRelativePath(target.uri),
+        text: targetDocument.getText(new vscode.Range(start, 0, end, targetDocument.lineAt(end).text.length)),
+        score: 1
+      };
+    } catch (error) {
+      logger.debug(`Could not read definition of ${name}:`, error);
+      return undefined;
+    }
+  }
+
+  // Sliding windows over other open and recently edited files, scored by shared identifiers
+  private async findSimilarSnippets(document: vscode.TextDocument, regionTokens: Set<string>): Promise<ScoredSnippet[]> {
+    const current = document.uri.toString();
+    const documents = new Map<string, vscode.TextDocument>();
+    for (const candidate of vscode.workspace.textDocuments) {
+      documents.set(candidate.uri.toString(), candidate);
+    }
+    for (const uri of [...this.recentEdits.keys()].reverse()) {
+      if (!documents.has(uri)) {
+        try {
+          documents.set(uri, await vscode.workspace.openTextDocument(vscode.Uri.parse(uri)));
+        } catch {
+          this.recentEdits.delete(uri);
+        }
+      }
+    }
+
+    const snippets: ScoredSnippet[] = [];
+    for (const [uri, candidate] of documents) {
+      if (uri === current || !this.isShareable(candidate)) {
+        continue;
+      }
+
+      // Keep the best window per file so one big file can't crowd out the rest
+      let best: ScoredSnippet | undefined;
+      const lineCount = Math.min(candidate.lineCount, maxLinesPerFile);
+      for (let start = 0; start < lineCount; start += windowStride) {
+        const end = Math.min(lineCount - 1, start + windowLines - 1);
+        const text = candidate.getText(new vscode.Range(start, 0, end, candidate.lineAt(end).text.length));
+        const score = jaccard(regionTokens, tokenize(text));
+        if (score >= minSimilarity && (!best || score > best.score)) {
+          best = { fileName: vscode.workspace.asRelativePath(candidate.uri), text, score };
+        }
+        if (end === lineCount - 1) {
+          break;
+        }
+      }
+      if (best) {
+        snippets.push(best);
+      }
+    }
+
+    return snippets;
+  }
+
+  public dispose() {
+    this.changeListener.dispose();
+  }
+}
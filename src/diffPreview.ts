@@ -0,0 +1,70 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+
+const scheme = 'perpo-proposal';
+
+// Serves proposed file contents as read-only virtual documents for the diff editor
+export class DiffPreview implements vscode.TextDocumentContentProvider, vscode.Disposable {
+  private readonly contents = new Map<string, string>();
+  private readonly registration: vscode.Disposable;
+  private nextId = 0;
+
+  constructor() {
+    this.registration = vscode.workspace.registerTextDocumentContentProvider(scheme, this);
+  }
+
+  public provideTextDocumentContent(uri: vscode.Uri): string {
+    return this.contents.get(uri.toString()) ?? '';
+  }
+
+  // Shows the document next to a copy with `range` replaced, and applies the
+  // replacement if the user accepts it. Returns whether it was applied.
+  public async propose(document: vscode.TextDocument, range: vscode.Range, replacement: string, title: string): Promise<boolean> {
+    const version = document.version;
+    const offsetStart = document.offsetAt(range.start);
+    const offsetEnd = document.offsetAt(range.end);
+    const text = document.getText();
+    const proposed = text.substring(0, offsetStart) + replacement + text.substring(offsetEnd);
+
+    // Keep the file name so the diff editor picks the right language
+    const uri = vscode.Uri.from({
+      scheme,
+      path: `/${this.nextId++}/${path.basename(document.uri.path) || 'untitled'}`
+    });
+    this.contents.set(uri.toString(), proposed);
+
+    try {
+      await vscode.commands.executeCommand('vscode.diff', document.uri, uri, `${title} (Perpo proposal)`, { preview: true });
+      const choice = await vscode.window.showInformationMessage(`Perpo: ${title}?`, 'Accept', 'Reject');
+      await this.closeDiff(uri);
+
+      if (choice !== 'Accept') {
+        return false;
+      }
+      if (document.version !== version) {
+        vscode.window.showWarningMessage('Perpo: The file changed while the proposal was open. Run the command again.');
+        return false;
+      }
+
+      const edit = new vscode.WorkspaceEdit();
+      edit.replace(document.uri, range, replacement);
+      return await vscode.workspace.applyEdit(edit);
+    } finally {
+      this.contents.delete(uri.toString());
+    }
+  }
+
+  private async closeDiff(uri: vscode.Uri) {
+    const tabs = vscode.window.tabGroups.all
+      .flatMap(group => group.tabs)
+      .filter(tab => tab.input instanceof vscode.TabInputTextDiff && tab.input.modified.toString() === uri.toString());
+    if (tabs.length > 0) {
+      await vscode.window.tabGroups.close(tabs);
+    }
+  }
+
+  public dispose() {
+    this.registration.dispose();
+    this.contents.clear();
+  }
+}
@@ -0,0 +1,75 @@
+import * as vscode from 'vscode';
+
+// Only real files, unsaved editors and notebook cells; never output panes, git views
+// or the SCM input box
+export const completionSelector: vscode.DocumentSelector = [
+  { scheme: 'file' },
+  { scheme: 'untitled' },
+  { scheme: 'vscode-notebook-cell' }
+];
+
+// `perpo.enable` maps language IDs to on/off, with "*" as the fallback
+export function isLanguageEnabled(languageId: string): boolean {
+  const languages = vscode.workspace.getConfiguration('perpo').get<Record<string, boolean>>('enable', {});
+  return languages[languageId] ?? languages['*'] ?? true;
+}
+
+export async function setLanguageEnabled(languageId: string, enabled: boolean): Promise<void> {
+  const config = vscode.workspace.getConfiguration('perpo');
+  const languages = config.inspect<Record<string, boolean>>('enable')?.globalValue ?? {};
+  await config.update('enable', { ...languages, [languageId]: enabled }, vscode.ConfigurationTarget.Global);
+}
+
+export function isExcludedFile(document: vscode.TextDocument): boolean {
+  const patterns = vscode.workspace.getConfiguration('perpo').get<string[]>('exclude', []);
+  return patterns.some(pattern => vscode.languages.match({ pattern }, document) > 0);
+}
+
+// Glob syntax as in `perpo.exclude`: `**`, `*`, `?` and `{a,b}`
+function globToRegExp(glob: string): RegExp {
+  let source = '';
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '*' && glob[i + 1] === '*') {
+      source += glob[i + 2] === '/' ? '(?:.*/)?' : '.*';
+      i += glob[i + 2] === '/' ? 2 : 1;
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '{') {
+      source += '(?:';
+    } else if (char === '}') {
+      source += ')';
+    } else if (char === ',') {
+      source += '|';
+    } else {
+      source += char.replace(/[.+^$()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`(?:^|/)${source}$`);
+}
+
+// For files that aren't open as documents, such as staged changes
+export function isExcludedUri(uri: vscode.Uri): boolean {
+  const patterns = vscode.workspace.getConfiguration('perpo').get<string[]>('exclude', []);
+  return patterns.some(pattern => globToRegExp(pattern).test(uri.path));
+}
+
+// Explains why nothing from this document may be sent to the backend, if anything
+export function getDisabledReason(document: vscode.TextDocument): string | undefined {
+  if (vscode.languages.match(completionSelector, document) === 0) {
+    return `${document.uri.scheme} documents are not supported`;
+  }
+  if (isExcludedFile(document)) {
+    return 'this file matches perpo.exclude';
+  }
+  if (!isLanguageEnabled(document.languageId)) {
+    return `disabled for ${document.languageId}`;
+  }
+  return undefined;
+}
+
+export function isDocumentEnabled(document: vscode.TextDocument): boolean {
+  return getDisabledReason(document) === undefined;
+}
@@ -0,0 +1,39 @@
+import * as vscode from 'vscode';
+import { classifyError, ErrorKind } from './resilientBackend';
+
+// Tells the user about errors they have to act on - once, not on every keystroke
+export class ApiErrorNotifier {
+  private notified = new Set<ErrorKind>();
+
+  public reset() {
+    this.notified.clear();
+  }
+
+  public notify(error: unknown) {
+    const { kind, status } = classifyError(error);
+    if ((kind !== 'auth' && kind !== 'quota') || this.notified.has(kind)) {
+      return;
+    }
+    this.notified.add(kind);
+
+    if (kind === 'auth') {
+      vscode.window.showErrorMessage(
+        `Perpo: The API key was rejected (${status}). Completions are paused until it is replaced.`,
+        'Set API Key'
+      ).then(selection => {
+        if (selection === 'Set API Key') {
+          vscode.commands.executeCommand('perpo.setApiKey');
+        }
+      });
+    } else {
+      vscode.window.showErrorMessage(
+        `Perpo: The API quota is exhausted (${status}). Completions are paused until the configuration changes.`,
+        'Show Logs'
+      ).then(selection => {
+        if (selection === 'Show Logs') {
+          vscode.commands.executeCommand('perpo.showLogs');
+        }
+      });
+    }
+  }
+}
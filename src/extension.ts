@@ -1,35 +1,92 @@
 import * as vscode from 'vscode';
 import axios from 'axios';
-
-interface PerplexityResponse {
-  choices: Array<{
-    message: {
-      content: string;
-    };
-  }>;
-}
-
-class PerplexityCompletionProvider implements vscode.InlineCompletionItemProvider {
+import * as os from 'os';
+import * as path from 'path';
+import { BackendKind, BackendSettings, ChatRequest, createBackend } from './backends';
+import { CompletionCache } from './completionCache';
+import { ApiKeyStore } from './apiKeyStore';
+import { completionSelector, getDisabledReason } from './enablement';
+import { CompletionError, CompletionState, PerpoStatusBar } from './statusBar';
+import { LogLevel, logger } from './logger';
+import { classifyError } from './resilientBackend';
+import { ApiErrorNotifier } from './errorNotifier';
+import { extractPrompt } from './commentSyntax';
+import { CursorContext, extractContext } from './contextExtractor';
+import { CrossFileContext } from './crossFileContext';
+import { generationPipeline, getBaseIndent, inlinePipeline, isCompleteBlock, runPipeline } from './postProcessing';
+import { TrackedRequest, UsageTracker } from './usageTracker';
+import { LinePosition, SuggestionTracker, classifyPosition } from './suggestionTracker';
+import { UsagePanel } from './usagePanel';
+import { ChatViewProvider } from './chatView';
+import { DiffPreview } from './diffPreview';
+import { SelectionEditor } from './selectionEditor';
+import { FixCodeActionProvider } from './codeActions';
+import { CommitMessageGenerator } from './commitMessage';
+import { ModeSettings, ProjectConfig, PromptMode, fillTemplate } from './projectConfig';
+import { ModelRouter, RoutedBackend, readModelRoutes } from './modelRouter';
+import { RedactingBackend, Redactor } from './redaction';
+import { RequestAudit } from './requestAudit';
+import { GenerationInserter, InsertMode, InsertedGeneration, prepareGeneration } from './generationInserter';
+
+type TriggerMode = 'automatic' | 'manual' | 'both';
+
+// Used unless the project's .perpo.json overrides them
+const completionDefaults: ModeSettings = {
+  systemPrompt: 'You are a code completion assistant. Fill in the code at the <CURSOR> position so that it connects the code before it with the code after it. Return ONLY valid executable code - no explanations, no thinking, no comments about the completion, no <think> tags. Never repeat code that already follows the cursor. Just the code that should be typed next.',
+  maxTokens: 256,
+  temperature: 0.1,
+  timeout: 10000
+};
+
+const generationDefaults: ModeSettings = {
+  systemPrompt: 'You are a skilled {language} programmer. Generate complete, functional code based on the user\'s request. Return ONLY executable code - no explanations, no comments about what you\'re doing, no markdown formatting. Just clean, working code that fulfills the request.',
+  maxTokens: 300,
+  temperature: 0.2,
+  timeout: 15000
+};
+
+class PerplexityCompletionProvider implements vscode.InlineCompletionItemProvider, vscode.Disposable {
   private apiKey!: string;
-  private model!: string;
   private enabled!: boolean;
+  private streaming!: boolean;
+  private triggerMode!: TriggerMode;
+  private alternativeCount!: number;
+  private alternativesRequested = false;
+  private promptMarker!: string;
+  private insertMode!: InsertMode;
+  private contextTokens!: number;
+  private crossFileTokens!: number;
+  private adaptiveTriggering!: boolean;
+  private router!: ModelRouter;
+  private readonly notifier = new ApiErrorNotifier();
   
   // Proper debouncing state
   private pendingResolve: ((res: vscode.InlineCompletionItem[] | vscode.InlineCompletionList | null) => void) | null = null;
-  private lastDebounceInput: {
-    document: vscode.TextDocument;
-    position: vscode.Position;
-    token: vscode.CancellationToken;
-  } | null = null;
+  private pendingRun: (() => Promise<vscode.InlineCompletionItem[] | null>) | null = null;
   private debounceTimer: NodeJS.Timeout | null = null;
   private readonly debounceDelay = 500; // 500ms debounce
 
-  constructor() {
-    this.updateConfiguration();
-    console.log('🚀 PerplexityCompletionProvider initialized');
-    console.log('📝 API Key present:', !!this.apiKey);
-    console.log('🔧 Model:', this.model);
-    console.log('✅ Enabled:', this.enabled);
+  // Request state for the status bar
+  private readonly stateEmitter = new vscode.EventEmitter<CompletionState>();
+  public readonly onDidChangeState = this.stateEmitter.event;
+  private activeRequests = 0;
+  private lastError: CompletionError | undefined;
+  private overBudget = false;
+  private readonly usageListener: vscode.Disposable;
+
+  constructor(
+    private cache: CompletionCache,
+    private keyStore: ApiKeyStore,
+    private crossFile: CrossFileContext,
+    private usage: UsageTracker,
+    private suggestions: SuggestionTracker,
+    private projectConfig: ProjectConfig,
+    private redactor: Redactor,
+    private audit: RequestAudit,
+    private inserter: GenerationInserter
+  ) {
+    this.usageListener = usage.onDidChange(() => this.checkBudget());
+    logger.debug('Completion provider initialized');
   }
 
   async provideInlineCompletionItems(
@@ -39,30 +96,135 @@ class PerplexityCompletionProvider implements vscode.InlineCompletionItemProvide
     token: vscode.CancellationToken
   ): Promise<vscode.InlineCompletionItem[] | vscode.InlineCompletionList | null> {
     
-    console.log('🎯 provideInlineCompletionItems called');
+    logger.trace('provideInlineCompletionItems called');
+
+    // Asked for by command, which triggers right away; cleared here so that a request
+    // skipped below doesn't leave the next keystroke fetching several suggestions
+    const alternativesRequested = this.alternativesRequested && context.triggerKind === vscode.InlineCompletionTriggerKind.Invoke;
+    this.alternativesRequested = false;
     
-    if (!this.enabled || !this.apiKey) {
-      console.log('❌ Extension disabled or API key missing');
+    if (!this.enabled || this.isMissingApiKey()) {
+      logger.debug('Skipping completion: extension disabled or API key missing');
       return null;
     }
 
-    // Check if this is a prompt-based generation (// prompt)
+    // Checked before any context is read from the document
+    const disabledReason = getDisabledReason(document);
+    if (disabledReason) {
+      logger.debug('Skipping completion:', disabledReason);
+      return null;
+    }
+
+    // The rest of a suggestion the user has partly typed or accepted word by word
+    const continuation = alternativesRequested ? undefined : this.suggestions.continuation(document, position);
+    if (continuation) {
+      logger.debug('Continuing the current suggestion');
+      this.cancelPendingRequest();
+      return [this.createItem(continuation.text, new vscode.Range(position, position), continuation.id)];
+    }
+
+    // Explicit triggers skip the debounce, unless every request is treated as automatic
+    const explicit = context.triggerKind === vscode.InlineCompletionTriggerKind.Invoke && this.triggerMode !== 'automatic';
+    if (!explicit && this.triggerMode === 'manual') {
+      logger.trace('Skipping automatic completion: trigger mode is manual');
+      return null;
+    }
+    if (!explicit && this.usage.isOverBudget()) {
+      logger.debug('Skipping automatic completion: daily token budget used up');
+      return null;
+    }
+
+    // Also honoured in automatic mode, where the request is still debounced
+    const alternatives = alternativesRequested ? this.alternativeCount : 1;
+    const backend = this.router.backendFor('completion', explicit);
+
+    // Check if this is a prompt-based generation (a comment in the document's language)
     const currentLine = document.lineAt(position.line).text;
     const prefix = currentLine.substring(0, position.character);
+    const userPrompt = extractPrompt(prefix, document.languageId, this.promptMarker);
     
-    if (this.isPromptBasedGeneration(prefix)) {
-      console.log('🎨 Detected prompt-based generation');
-      return this.handlePromptGeneration(document, position, token);
+    if (userPrompt) {
+      logger.debug('Detected prompt-based generation');
+      const generationBackend = this.router.backendFor('generation', explicit);
+      if (!explicit && generationBackend.isCircuitOpen()) {
+        logger.debug('Skipping automatic generation: requests are paused after repeated failures');
+        return null;
+      }
+      if (!explicit) {
+        // A diff opening by itself while typing a comment would be disruptive
+        if (this.insertMode === 'diff') {
+          logger.debug('Skipping automatic generation: insert mode is diff, waiting for an explicit trigger');
+          return null;
+        }
+        // Comments are requests in every language, so wait for typing to pause like completions do
+        return this.debounce(this.debounceDelay, () => this.handlePromptGeneration(document, position, token, userPrompt, generationBackend));
+      }
+      this.cancelPendingRequest();
+      const endRequest = this.beginRequest();
+      try {
+        return await this.handlePromptGeneration(document, position, token, userPrompt, generationBackend);
+      } finally {
+        endRequest();
+      }
+    }
+
+    // Reuse an earlier suggestion without a new request
+    const cachedCompletion = alternatives === 1 ? this.getCachedCompletion(document, position, backend) : null;
+    if (cachedCompletion) {
+      logger.debug('Serving completion from cache');
+      this.cancelPendingRequest();
+      this.usage.recordCacheHit(backend.model, document.languageId);
+      return this.offerItems([cachedCompletion], new vscode.Range(position, position), document, classifyPosition(document, position), backend.model);
+    }
+
+    // Stop hammering the API after repeated failures; explicit triggers still go through
+    if (!explicit && backend.isCircuitOpen()) {
+      logger.debug('Skipping automatic completion: requests are paused after repeated failures');
+      return null;
     }
 
+    if (explicit) {
+      logger.debug(`Explicit trigger - requesting ${alternatives} suggestion(s) immediately`);
+      this.cancelPendingRequest();
+      const endRequest = this.beginRequest();
+      try {
+        return await this.getCompletionWithDebounce(document, position, token, backend, alternatives);
+      } finally {
+        endRequest();
+      }
+    }
+
+    // Where suggestions are rarely accepted, wait longer or don't suggest at all
+    const linePosition = classifyPosition(document, position);
+    const policy = this.adaptiveTriggering
+      ? this.suggestions.policy(document.languageId, linePosition)
+      : { debounceFactor: 1, suppress: false };
+    if (policy.suppress && alternatives === 1) {
+      logger.debug(`Skipping automatic completion: suggestions are rarely accepted in ${document.languageId} at ${linePosition}`);
+      return null;
+    }
+
+    return this.debounce(this.debounceDelay * policy.debounceFactor, () => this.getCompletionWithDebounce(document, position, token, backend, alternatives));
+  }
+
+  // Waits for typing to pause before running the request; a newer request
+  // supersedes the pending one, which resolves to null
+  private debounce(
+    delay: number,
+    run: () => Promise<vscode.InlineCompletionItem[] | null>
+  ): Promise<vscode.InlineCompletionItem[] | vscode.InlineCompletionList | null> {
     // **FIX 1: Use arrow function to preserve 'this' context**
     return new Promise((resolve) => {
       // If there was a previous pending resolve, cancel it
       if (this.pendingResolve) {
         this.pendingResolve(null); // Cancel the old request
       }
-      this.pendingResolve = resolve;
-      this.lastDebounceInput = { document, position, token };
+      const endRequest = this.beginRequest();
+      this.pendingResolve = result => {
+        endRequest();
+        resolve(result);
+      };
+      this.pendingRun = run;
 
       if (this.debounceTimer) {
         clearTimeout(this.debounceTimer);
@@ -70,27 +232,27 @@ class PerplexityCompletionProvider implements vscode.InlineCompletionItemProvide
 
       // **CRITICAL FIX: Use arrow function to preserve 'this' context**
       this.debounceTimer = setTimeout(async () => {
-        if (!this.pendingResolve || !this.lastDebounceInput) {
-          console.log('🚫 No pending resolve or input - skipping');
+        if (!this.pendingResolve || !this.pendingRun) {
+          logger.trace('No pending request after debounce - skipping');
           return;
         }
 
-        const { document, position, token } = this.lastDebounceInput;
+        const pendingRun = this.pendingRun;
         const currentResolve = this.pendingResolve; // Store reference before async operations
         
         try {
-          console.log('⏰ Debounce timer fired - processing request');
-          const completion = await this.getCompletionWithDebounce(document, position, token);
+          logger.trace('Debounce timer fired - processing request');
+          const completion = await pendingRun();
           
           // **FIX 2: Check if this is still the current request**
           if (currentResolve === this.pendingResolve) {
-            console.log('✅ Resolving with completion:', completion);
+            logger.trace('Resolving with', completion?.length ?? 0, 'completion item(s)');
             currentResolve(completion);
           } else {
-            console.log('🚫 Request was superseded - not resolving');
+            logger.trace('Request was superseded - not resolving');
           }
         } catch (error) {
-          console.error('💥 Perplexity Copilot error:', error);
+          logger.error('Inline completion failed:', error);
           if (currentResolve === this.pendingResolve) {
             currentResolve(null);
           }
@@ -98,23 +260,147 @@ class PerplexityCompletionProvider implements vscode.InlineCompletionItemProvide
           // Only clear if this is still the current request
           if (currentResolve === this.pendingResolve) {
             this.pendingResolve = null;
-            this.lastDebounceInput = null;
+            this.pendingRun = null;
           }
         }
-      }, this.debounceDelay);
+      }, delay);
     });
   }
 
-  private isPromptBasedGeneration(prefix: string): boolean {
-    // Check if line starts with // followed by some text
-    const trimmed = prefix.trim();
-    return trimmed.startsWith('// ') && trimmed.length > 3;
+  // Counts a request as in flight until the returned callback is first called
+  private beginRequest(): () => void {
+    let finished = false;
+    this.activeRequests++;
+    this.fireState();
+
+    return () => {
+      if (!finished) {
+        finished = true;
+        this.activeRequests--;
+        this.fireState();
+      }
+    };
+  }
+
+  public get state(): CompletionState {
+    return {
+      enabled: this.enabled,
+      missingApiKey: this.isMissingApiKey(),
+      loading: this.activeRequests > 0,
+      overBudget: this.overBudget,
+      error: this.lastError
+    };
+  }
+
+  // Tells the user once when the daily budget runs out, and again after it resets
+  private checkBudget() {
+    const overBudget = this.usage.isOverBudget();
+    if (overBudget === this.overBudget) {
+      return;
+    }
+    this.overBudget = overBudget;
+    this.fireState();
+
+    if (overBudget) {
+      logger.warn(`Daily token budget of ${this.usage.budget} used up`);
+      vscode.window.showWarningMessage(
+        `Perpo: Today's token budget (${this.usage.budget.toLocaleString('en-US')}) is used up. Automatic completions are paused until tomorrow.`,
+        'Show Usage'
+      ).then(selection => {
+        if (selection === 'Show Usage') {
+          vscode.commands.executeCommand('perpo.showUsage');
+        }
+      });
+    }
+  }
+
+  private offerItems(
+    completions: string[],
+    range: vscode.Range,
+    document: vscode.TextDocument,
+    linePosition: LinePosition,
+    model: string,
+    generation?: InsertedGeneration
+  ): vscode.InlineCompletionItem[] {
+    const id = this.suggestions.show(document, range.start, completions, model, linePosition);
+    return completions.map(completion => this.createItem(completion, range, id, generation));
+  }
+
+  // Items report their acceptance back through a command so it can be counted;
+  // generated code is also tidied up in place once accepted
+  private createItem(completion: string, range: vscode.Range, id: number, generation?: InsertedGeneration): vscode.InlineCompletionItem {
+    const item = new vscode.InlineCompletionItem(completion, range);
+    item.command = generation
+      ? { title: 'Accept', command: 'perpo.generationAccepted', arguments: [id, generation] }
+      : { title: 'Accept', command: 'perpo.suggestionAccepted', arguments: [id] };
+    return item;
+  }
+
+
+  private fireState() {
+    this.stateEmitter.fire(this.state);
+  }
+
+  private reportError(error: unknown, tracked: TrackedRequest | undefined) {
+    if (axios.isCancel(error)) {
+      return;
+    }
+    tracked?.fail(classifyError(error).status);
+    this.notifier.notify(error);
+    this.lastError = axios.isAxiosError(error)
+      ? { message: error.response?.data?.error?.message ?? error.message, status: error.response?.status }
+      : { message: error instanceof Error ? error.message : String(error) };
+    this.fireState();
+  }
+
+  private clearError() {
+    if (this.lastError) {
+      this.lastError = undefined;
+      this.fireState();
+    }
+  }
+
+  // The next explicit trigger fetches several candidates for VS Code to cycle through
+  public requestAlternatives() {
+    this.alternativesRequested = true;
+  }
+
+  private cancelPendingRequest() {
+    if (this.debounceTimer) {
+      clearTimeout(this.debounceTimer);
+      this.debounceTimer = null;
+    }
+    if (this.pendingResolve) {
+      this.pendingResolve(null);
+      this.pendingResolve = null;
+      this.pendingRun = null;
+    }
+  }
+
+  private getCachedCompletion(document: vscode.TextDocument, position: vscode.Position, backend: RoutedBackend): string | null {
+    // The user may be typing out a suggestion that is still on screen
+    const typedThrough = this.cache.getTypedThrough(document, position);
+    if (typedThrough) {
+      return typedThrough;
+    }
+
+    return this.cache.get(this.getInlineCacheKey(document, position, backend));
+  }
+
+  // Keyed on the raw text around the cursor, so lookups don't need the full context extraction
+  private getInlineCacheKey(document: vscode.TextDocument, position: vscode.Position, backend: RoutedBackend): string {
+    const offset = document.offsetAt(position);
+    const before = document.getText(new vscode.Range(document.positionAt(Math.max(0, offset - 2000)), position));
+    const after = document.getText(new vscode.Range(position, document.positionAt(offset + 500)));
+    return CompletionCache.createKey('inline', backend.name, backend.model, document.languageId, before, after);
   }
 
   private async handlePromptGeneration(
   document: vscode.TextDocument,
   position: vscode.Position,
-  token: vscode.CancellationToken
+  token: vscode.CancellationToken,
+  userPrompt: string,
+  backend: RoutedBackend
 ): Promise<vscode.InlineCompletionItem[] | null> {
   
   if (token.isCancellationRequested) {
@@ -122,47 +408,45 @@ class PerplexityCompletionProvider implements vscode.InlineCompletionItemProvide
   }
 
   const currentLine = document.lineAt(position.line).text;
-  const prefix = currentLine.substring(0, position.character);
-  
-  // Extract the prompt from the comment
-  const promptMatch = prefix.match(/\/\/\s*(.+)/);
-  if (!promptMatch) {
-    return null;
-  }
-
-  const userPrompt = promptMatch[1].trim();
-  console.log('🎨 User prompt:', userPrompt);
+  logger.content('User prompt', userPrompt);
 
   // Get context for better generation
-  const contextCode = this.getFullMethodContext(document, position);
+  const cursorContext = await extractContext(document, position, this.contextTokens);
+  cursorContext.related = await this.crossFile.gather(document, cursorContext, this.crossFileTokens);
   const language = document.languageId;
   const fileName = document.fileName;
 
   try {
-    const generatedCode = await this.generateCodeFromPrompt(userPrompt, contextCode, language, fileName);
+    const settings = this.projectConfig.resolve('generation', document, generationDefaults);
+    const generatedCode = await this.generateCodeFromPrompt(userPrompt, cursorContext, language, fileName, settings, backend);
     
     if (generatedCode && generatedCode.trim().length > 0) {
-      console.log('✅ Generated code from prompt:', generatedCode);
-      
-      // **FIX: Create completion that replaces the comment line and adds the code**
-      const lineStart = new vscode.Position(position.line, 0);
+      logger.content('Generated code from prompt', generatedCode);
+
+      // Indented like the comment, with imports set aside to be hoisted
+      const prepared = prepareGeneration(generatedCode, currentLine.match(/^\s*/)![0]);
+      if (this.insertMode === 'diff') {
+        this.inserter.proposeDiff(document, position.line, prepared).then(undefined, error => logger.error('Generation diff failed:', error));
+        return null;
+      }
+
+      // Inserted on a new line after the comment; the accept command does the rest
       const lineEnd = new vscode.Position(position.line, currentLine.length);
+      const completionText = `\n${prepared.code}`;
+      const items = this.offerItems([completionText], new vscode.Range(lineEnd, lineEnd), document, 'prompt', backend.model, {
+        uri: document.uri.toString(),
+        line: position.line,
+        text: completionText,
+        imports: prepared.imports,
+        replaceComment: this.insertMode === 'replace'
+      });
       
-      // Add a newline before the generated code to separate it from the comment line replacement
-      const completionText = `\n${generatedCode}`;
+      logger.debug(`Offering generated code at line ${lineEnd.line}, character ${lineEnd.character}`);
       
-      const completionItem = new vscode.InlineCompletionItem(
-        completionText,
-        new vscode.Range(lineEnd, lineEnd) // Insert at end of current line
-      );
-      
-      console.log('🚀 Creating completion item with text:', completionText);
-      console.log('🎯 Range:', `Line ${lineEnd.line}, Char ${lineEnd.character}`);
-      
-      return [completionItem];
+      return items;
     }
   } catch (error) {
-    console.error('💥 Error generating code from prompt:', error);
+    logger.error('Error generating code from prompt:', error);
   }
 
   return null;
@@ -172,462 +456,559 @@ class PerplexityCompletionProvider implements vscode.InlineCompletionItemProvide
   private async getCompletionWithDebounce(
     document: vscode.TextDocument,
     position: vscode.Position,
-    token: vscode.CancellationToken
+    token: vscode.CancellationToken,
+    backend: RoutedBackend,
+    alternatives = 1
   ): Promise<vscode.InlineCompletionItem[] | null> {
     
     // Check if request was cancelled
     if (token.isCancellationRequested) {
-      console.log('🚫 Request cancelled');
+      logger.trace('Request cancelled');
       return null;
     }
 
-    console.log('📄 Document:', document.fileName);
-    console.log('📍 Position:', position.line, position.character);
+    logger.debug(`Completing ${document.fileName} at ${position.line}:${position.character}`);
 
     try {
       // Get more comprehensive context - full method/function
       const currentLine = document.lineAt(position.line).text;
       const prefix = currentLine.substring(0, position.character);
       
-      console.log('📝 Current line:', currentLine);
-      console.log('🔤 Prefix:', prefix);
+      logger.content('Current line', currentLine);
+      logger.content('Prefix', prefix);
       
-      // Get extended context - try to capture the full function/method
-      const contextCode = this.getFullMethodContext(document, position);
+      // Get the enclosing function/class from the symbol tree, within the token budget
+      const cursorContext = await extractContext(document, position, this.contextTokens);
+      cursorContext.related = await this.crossFile.gather(document, cursorContext, this.crossFileTokens);
       const fileName = document.fileName;
       const language = document.languageId;
 
-      console.log('🔍 Context code length:', contextCode.length);
-      console.log('🌐 Language:', language);
-
-      // Create completion request
-      const completion = await this.getCompletion(contextCode, language, fileName);
+      logger.debug(`Context: ${cursorContext.prefix.length} characters before, ${cursorContext.suffix.length} after, language ${language}`);
+
+      // Create completion request, aborting the HTTP call if VS Code cancels
+      const controller = new AbortController();
+      const cancellation = token.onCancellationRequested(() => controller.abort());
+      let completions: string[];
+      try {
+        const settings = this.projectConfig.resolve('completion', document, completionDefaults);
+        completions = await this.getCompletions(cursorContext, language, fileName, controller.signal, alternatives, settings, backend);
+      } finally {
+        cancellation.dispose();
+      }
       
-      if (completion && completion.trim().length > 0) {
-        console.log('✅ Got completion:', completion);
-        const completionItem = new vscode.InlineCompletionItem(
-          completion,
-          new vscode.Range(position, position)
-        );
-        return [completionItem];
+      if (completions.length > 0) {
+        completions.forEach(completion => logger.content('Got completion', completion));
+        this.cache.set(this.getInlineCacheKey(document, position, backend), completions[0], document, position);
+        return this.offerItems(completions, new vscode.Range(position, position), document, classifyPosition(document, position), backend.model);
       } else {
-        console.log('❌ No valid completion received');
+        logger.debug('No valid completion received');
       }
 
       return null;
     } catch (error) {
-      console.error('💥 Error in getCompletionWithDebounce:', error);
+      logger.error('Error in getCompletionWithDebounce:', error);
       return null;
     }
   }
 
-  private getFullMethodContext(document: vscode.TextDocument, position: vscode.Position): string {
-    const currentLine = document.lineAt(position.line).text;
-    const prefix = currentLine.substring(0, position.character);
-    
-    // Find the start of the current function/method
-    let startLine = position.line;
-    let braceLevel = 0;
-    let foundFunction = false;
-    
-    // Go backwards to find function start
-    for (let i = position.line; i >= 0; i--) {
-      const line = document.lineAt(i).text;
-      
-      // Count braces to understand nesting
-      for (let j = line.length - 1; j >= 0; j--) {
-        if (line[j] === '}') braceLevel++;
-        if (line[j] === '{') braceLevel--;
-      }
-      
-      // Look for function/method keywords
-      if (braceLevel <= 0 && (
-        line.includes('function ') || 
-        line.includes('const ') || 
-        line.includes('let ') || 
-        line.includes('var ') ||
-        line.match(/^\s*\w+\s*\(/)) // method pattern
-      ) {
-        startLine = i;
-        foundFunction = true;
-        break;
-      }
-      
-      // Don't go too far back
-      if (i < position.line - 20) break;
-    }
-    
-    // If no function found, use a reasonable range
-    if (!foundFunction) {
-      startLine = Math.max(0, position.line - 15);
-    }
-    
-    // Get lines from function start to current position
-    const contextLines = [];
-    for (let i = startLine; i <= position.line; i++) {
-      if (i === position.line) {
-        contextLines.push(prefix);
-      } else {
-        contextLines.push(document.lineAt(i).text);
-      }
+  private async generateCodeFromPrompt(
+    prompt: string,
+    context: CursorContext,
+    language: string,
+    fileName: string,
+    settings: ModeSettings,
+    backend: RoutedBackend
+  ): Promise<string | null> {
+    logger.info(`Generating code from prompt with ${backend.name} model ${backend.model}`);
+
+    const cacheKey = CompletionCache.createKey('generation', backend.name, backend.model, language, fileName, prompt, context.prefix, context.suffix, JSON.stringify(settings));
+    const cached = this.cache.get(cacheKey);
+    if (cached) {
+      logger.debug('Serving generated code from cache');
+      this.usage.recordCacheHit(backend.model, language);
+      return cached;
     }
-    
-    return contextLines.join('\n');
-  }
-
-  private async generateCodeFromPrompt(prompt: string, context: string, language: string, fileName: string): Promise<string | null> {
-    console.log('🎨 Generating code from prompt...');
-    console.log('🔑 Using API key:', this.apiKey.substring(0, 10) + '...');
-    console.log('🤖 Using model:', this.model);
 
+    let tracked: TrackedRequest | undefined;
     try {
-      const requestData = {
-        model: this.model,
+      const request: ChatRequest = {
         messages: [
           {
             role: 'system',
-            content: `You are a skilled ${language} programmer. Generate complete, functional code based on the user's request. Return ONLY executable code - no explanations, no comments about what you're doing, no markdown formatting. Just clean, working code that fulfills the request.`
+            content: settings.systemPrompt
           },
           {
             role: 'user',
             content: `Generate ${language} code for this request: "${prompt}"
 
-${context ? `Current context:\n\`\`\`${language}\n${context}\n\`\`\`` : ''}
+${this.describeSurroundings(context, language)}${context.prefix ? `Current context:\n\`\`\`${language}\n${context.prefix}\n\`\`\`` : ''}
 
 File: ${fileName}
 
 Generate complete, functional code that implements the request. Return only the code.`
           }
         ],
-        max_tokens: 300,
-        temperature: 0.2,
-        stream: false
+        maxTokens: settings.maxTokens,
+        temperature: settings.temperature,
+        timeout: settings.timeout
       };
 
-      console.log('📤 Prompt generation request:', JSON.stringify(requestData, null, 2));
+      logger.content('Prompt generation request', JSON.stringify(request.messages, null, 2));
 
-      const response = await axios.post<PerplexityResponse>(
-        'https://api.perplexity.ai/chat/completions',
-        requestData,
-        {
-          headers: {
-            'Authorization': `Bearer ${this.apiKey}`,
-            'Content-Type': 'application/json'
-          },
-          timeout: 15000
-        }
-      );
+      tracked = this.usage.track(request, backend.model, language);
+      const generatedCode = await backend.complete(request);
+      tracked.finish(generatedCode);
 
-      console.log('📥 Response status:', response.status);
-
-      if (response.data.choices && response.data.choices.length > 0) {
-        let generatedCode = response.data.choices[0].message.content.trim();
-        console.log('🎯 Raw generated code:', generatedCode);
+      this.clearError();
+      if (generatedCode) {
+        logger.content('Raw generated code', generatedCode);
         
-        // Clean up the generated code
-        generatedCode = this.cleanGeneratedCode(generatedCode);
-        console.log('🧹 Cleaned generated code:', generatedCode);
+        const cleanedCode = runPipeline(generatedCode, { languageId: language, prefix: context.prefix, suffix: context.suffix }, generationPipeline);
+        logger.content('Cleaned generated code', cleanedCode);
         
-        return generatedCode;
+        if (cleanedCode) {
+          this.cache.set(cacheKey, cleanedCode);
+        }
+        return cleanedCode;
       }
 
-      console.log('❌ No choices in response');
+      logger.debug('No choices in response');
       return null;
     } catch (error) {
-      console.error('💥 Code generation failed:', error);
-      if (axios.isAxiosError(error)) {
-        console.error('📡 Response status:', error.response?.status);
-        console.error('📄 Response data:', error.response?.data);
-      }
+      logger.error('Code generation failed:', error);
+      this.reportError(error, tracked);
       return null;
     }
   }
 
-  private async getCompletion(context: string, language: string, fileName: string): Promise<string | null> {
-    console.log('🌐 Making API request...');
-    console.log('🔑 Using API key:', this.apiKey.substring(0, 10) + '...');
-    console.log('🤖 Using model:', this.model);
+  private async getCompletions(
+    context: CursorContext,
+    language: string,
+    fileName: string,
+    signal: AbortSignal,
+    count: number,
+    settings: ModeSettings,
+    backend: RoutedBackend
+  ): Promise<string[]> {
+    if (count <= 1) {
+      const completion = await this.getCompletion(context, language, fileName, signal, settings, backend);
+      return completion ? [completion] : [];
+    }
+
+    // Most backends ignore `n`, so ask in parallel with increasingly adventurous temperatures
+    const temperatures = Array.from({ length: count }, (_, i) => Math.min(2, settings.temperature + i * 0.7 / (count - 1)));
+    const results = await Promise.all(
+      temperatures.map(temperature => this.getCompletion(context, language, fileName, signal, { ...settings, temperature }, backend))
+    );
+    return [...new Set(results.filter((completion): completion is string => !!completion))];
+  }
 
+  private async getCompletion(
+    context: CursorContext,
+    language: string,
+    fileName: string,
+    signal: AbortSignal,
+    settings: ModeSettings,
+    backend: RoutedBackend
+  ): Promise<string | null> {
+    logger.info(`Requesting completion from ${backend.name} model ${backend.model}`);
+
+    let tracked: TrackedRequest | undefined;
     try {
       const prompt = this.buildPrompt(context, language, fileName);
-      console.log('📝 Prompt length:', prompt.length);
-      
-      const requestData = {
-        model: this.model,
+      logger.content('Prompt', prompt);
+
+      // Indentation of the cursor line, where the completion's first line starts
+      const baseIndent = getBaseIndent(context.prefix);
+
+      const request: ChatRequest = {
         messages: [
           {
             role: 'system',
-            content: 'You are a code completion assistant. Complete the code at the cursor position with the next logical line(s). Return ONLY valid executable code - no explanations, no thinking, no comments about the completion, no <think> tags. Just the code that should be typed next.'
+            content: settings.systemPrompt
           },
           {
             role: 'user',
             content: prompt
           }
         ],
-        max_tokens: 60,
-        temperature: 0.1,
-        stream: false
+        maxTokens: settings.maxTokens,
+        temperature: settings.temperature,
+        timeout: settings.timeout,
+        signal
       };
 
-      const response = await axios.post<PerplexityResponse>(
-        'https://api.perplexity.ai/chat/completions',
-        requestData,
-        {
-          headers: {
-            'Authorization': `Bearer ${this.apiKey}`,
-            'Content-Type': 'application/json'
-          },
-          timeout: 10000
-        }
-      );
-
-      console.log('📥 Response status:', response.status);
+      // When streaming, stop reading as soon as a complete block has arrived
+      tracked = this.usage.track(request, backend.model, language);
+      const completion = this.streaming
+        ? await backend.stream(request, text => isCompleteBlock(text, baseIndent))
+        : await backend.complete(request);
+      tracked.finish(completion);
 
-      if (response.data.choices && response.data.choices.length > 0) {
-        let completion = response.data.choices[0].message.content.trim();
-        console.log('🎯 Raw completion:', completion);
+      this.clearError();
+      if (completion) {
+        logger.content('Raw completion', completion);
         
-        // Clean up the completion
-        completion = this.cleanCompletion(completion);
-        console.log('🧹 Cleaned completion:', completion);
+        // Clean up the completion and drop anything the suffix already contains
+        const cleanedCompletion = runPipeline(completion, { languageId: language, prefix: context.prefix, suffix: context.suffix }, inlinePipeline);
+        logger.content('Cleaned completion', cleanedCompletion);
         
-        return completion;
+        return cleanedCompletion;
       }
 
-      console.log('❌ No choices in response');
+      logger.debug('No choices in response');
       return null;
     } catch (error) {
-      console.error('💥 API request failed:', error);
-      if (axios.isAxiosError(error)) {
-        console.error('📡 Response status:', error.response?.status);
-        console.error('📄 Response data:', error.response?.data);
-        
-        // Show the actual error message from the API
-        if (error.response?.data?.error?.message) {
-          console.error('🚨 API Error Message:', error.response.data.error.message);
-        }
+      logger.error('API request failed:', error);
+      this.reportError(error, tracked);
+
+      // Show the actual error message from the API
+      if (axios.isAxiosError(error) && error.response?.data?.error?.message) {
+        logger.error('API error message:', error.response.data.error.message);
       }
       return null;
     }
   }
 
-  private buildPrompt(context: string, language: string, fileName: string): string {
-    return `Complete this ${language} code at the cursor position (marked <CURSOR>):
+  private buildPrompt(context: CursorContext, language: string, fileName: string): string {
+    return `Fill in the ${language} code at the cursor position (marked <CURSOR>). The code before and after the cursor is already written:
 
-\`\`\`${language}
-${context}<CURSOR>
+${this.describeSurroundings(context, language)}\`\`\`${language}
+${context.prefix}<CURSOR>${context.suffix}
 \`\`\`
 
-Continue with the next logical line(s) of code. Return only the code that should be added.`;
-  }
-
-  private cleanGeneratedCode(code: string): string {
-    console.log('🔧 Cleaning generated code:', code);
-    
-    // Remove <think> tags and ALL content after them
-    code = code.replace(/<think>[\s\S]*$/gi, '');
-    
-    // Remove opening code block marker (```
-    code = code.replace(/^```[\s\S]*?\n?/, '');
-    
-    // Remove closing code block marker (```
-    code = code.replace(/\n?```$/, '');
-    
-    // Remove explanation text patterns
-    const explanationPatterns = [
-      /^.*?[Hh]ere'?s.*?:/,
-      /^.*?[Tt]his code.*?:/,
-      /^.*?[Tt]he above.*?:/,
-      /^.*?[Tt]his will.*?:/,
-      /^.*?[Tt]his function.*?:/
-    ];
-    
-    for (const pattern of explanationPatterns) {
-      code = code.replace(pattern, '');
-    }
-    
-    return code.trim();
+Return only the code that belongs at <CURSOR>, without repeating anything that comes after it.`;
   }
 
-  private cleanCompletion(completion: string): string {
-    console.log('🔧 Starting cleanup on:', completion);
-    
-    // CRITICAL: Remove any <think> tags and ALL content after them
-    completion = completion.replace(/<think>[\s\S]*$/gi, '');
-    console.log('After removing think tags:', completion);
-    
-    // If completion is empty after removing think tags, return empty
-    if (!completion.trim()) {
-      console.log('Empty after think tag removal');
-      return '';
-    }
-    
-    // Remove opening code block marker (```
-    completion = completion.replace(/^```[\s\S]*?\n?/, '');
-    
-    // Remove closing code block marker (```
-    completion = completion.replace(/\n?```$/, '');
-    console.log('After removing code blocks:', completion);
-    
-    // Remove common explanation patterns at the start
-    const explanationPatterns = [
-      /^.*?[Oo]kay.*?\./,
-      /^.*?[Ll]et's see.*?\./,
-      /^.*?[Tt]he user.*?\./,
-      /^.*?[Tt]he code.*?\./,
-      /^.*?[Tt]he function.*?\./,
-      /^.*?[Ii] need to.*?\./,
-      /^.*?[Ww]e need.*?\./,
-      /^.*?[Cc]omplete.*?\./,
-      /^.*?wants me to.*?\./
-    ];
-    
-    for (const pattern of explanationPatterns) {
-      const before = completion;
-      completion = completion.replace(pattern, '');
-      if (before !== completion) {
-        console.log('Removed explanation pattern');
+  // What the model should know about the file beyond the code around the cursor
+  private describeSurroundings(context: CursorContext, language: string): string {
+    let description = '';
+    if (context.related && context.related.length > 0) {
+      description += 'Related code from other files in the project:\n\n';
+      for (const snippet of context.related) {
+        description += `${snippet.fileName}:\n\`\`\`\n${snippet.text}\n\`\`\`\n\n`;
       }
     }
-    
-    // Split into lines and find the first line that looks like actual code
-    const lines = completion.split('\n');
-    const codeLines = [];
-    
-    for (const line of lines) {
-      const trimmed = line.trim();
-      
-      // Skip empty lines at the start
-      if (codeLines.length === 0 && trimmed === '') {
-        continue;
-      }
-      
-      // Check if this line looks like executable code
-      if (this.looksLikeCode(trimmed)) {
-        codeLines.push(line);
-        // For inline completion, usually just take the first good line
-        break;
-      } else if (codeLines.length > 0) {
-        // Stop if we hit explanation after code
-        break;
-      }
+    if (context.imports) {
+      description += `The file imports:\n\`\`\`${language}\n${context.imports}\n\`\`\`\n\n`;
     }
-    
-    const result = codeLines.join('\n').trim();
-    console.log('Final cleaned result:', result);
-    
-    return result;
+    if (context.enclosingSignature) {
+      description += `The code is inside: \`${context.enclosingSignature}\`\n\n`;
+    }
+    return description;
   }
 
-  private looksLikeCode(line: string): boolean {
-    if (!line || line.length === 0) return false;
-    
-    // Skip obvious explanation text
-    const explanationKeywords = [
-      'the user', 'let\'s see', 'okay', 'the code', 'the function',
-      'wants me to', 'complete', 'i need', 'we need', 'looking at'
-    ];
-    
-    const lowerLine = line.toLowerCase();
-    for (const keyword of explanationKeywords) {
-      if (lowerLine.includes(keyword)) {
-        return false;
-      }
+  // Shared with chat and the other commands, so each model keeps one circuit breaker
+  public backendFor(mode: PromptMode): RoutedBackend | null {
+    return this.isMissingApiKey() ? null : this.router.backendFor(mode);
+  }
+
+  public isMissingApiKey(): boolean {
+    return this.router.backendFor('completion').requiresApiKey && !this.apiKey;
+  }
+
+  public async updateConfiguration() {
+    const config = vscode.workspace.getConfiguration('perpo');
+    this.apiKey = await this.keyStore.get();
+    this.enabled = config.get('enabled', true);
+    this.streaming = config.get('stream', true);
+    this.triggerMode = config.get<TriggerMode>('triggerMode', 'both');
+    this.alternativeCount = Math.max(2, config.get('alternatives', 3));
+    this.promptMarker = config.get('generation.promptMarker', '');
+    this.insertMode = config.get<InsertMode>('generation.insertMode', 'below');
+    this.contextTokens = config.get('context.maxTokens', 1500);
+    this.crossFileTokens = config.get('context.crossFileMaxTokens', 1000);
+    this.adaptiveTriggering = config.get('adaptiveTriggering', true);
+    const invalidPatterns = this.redactor.configure(config.get('redaction.enabled', true), config.get<string[]>('redaction.patterns', []));
+    if (invalidPatterns.length > 0) {
+      logger.warn(`Ignoring invalid redaction patterns: ${invalidPatterns.join(', ')}`);
+      vscode.window.showWarningMessage(`Perpo: Ignoring invalid regular expressions in perpo.redaction.patterns: ${invalidPatterns.join(', ')}`);
     }
-    
-    // Common code patterns
-    const codePatterns = [
-      /^[a-zA-Z_$][a-zA-Z0-9_$]*\s*[=+\-*/]/,  // variable assignment/operation
-      /^return\s+/,                             // return statement
-      /^[a-zA-Z_$][a-zA-Z0-9_$]*\s*\(/,        // function call
-      /^[a-zA-Z_$][a-zA-Z0-9_$]*\s*\./,        // property access
-      /^(if|for|while|switch|try|catch)\s*\(/,  // control structures
-      /^(const|let|var)\s+/,                    // variable declarations
-      /^(function|class)\s+/,                   // function/class definitions
-      /^\d+/,                                   // numbers
-      /^["']/,                                  // strings
-      /^[{}\[\];]/,                            // brackets/semicolons
-      /^a\b/,                                   // parameter 'a'
-      /^b\b/,                                   // parameter 'b'
-      /^\+/,                                    // operators
-      /^-/,
-      /^\*/,
-      /^\//
-    ];
-    
-    return codePatterns.some(pattern => pattern.test(line));
+    this.audit.setSize(config.get('audit.requests', 20));
+
+    // Every request is redacted and recorded for the audit, whichever path and model it takes
+    const settings: BackendSettings = {
+      kind: config.get<BackendKind>('backend', 'perplexity'),
+      apiKey: this.apiKey,
+      model: config.get('model', 'sonar'),
+      baseUrl: config.get('baseUrl', ''),
+      fixturesDirectory: this.resolveFixturesDirectory(config.get('fixtures.directory', '.perpo/fixtures')),
+      record: config.get('fixtures.record', false)
+    };
+    this.router = new ModelRouter(readModelRoutes(config), model =>
+      new RedactingBackend(createBackend({ ...settings, model }), this.redactor, this.audit)
+    );
+    this.usage.setDailyTokenBudget(config.get('usage.dailyTokenBudget', 0));
+    logger.setLevel(config.get<LogLevel>('logLevel', 'info'));
+    logger.setSecrets([this.apiKey]);
+    logger.info(`Configuration updated: backend ${this.router.backendFor('completion').name}, completion model ${this.router.describe('completion')}, generation model ${this.router.describe('generation')}, enabled ${this.enabled}, API key ${this.apiKey ? 'present' : 'missing'}`);
+
+    // A new key or backend deserves a fresh start
+    this.lastError = undefined;
+    this.notifier.reset();
+    this.fireState();
   }
 
-  public updateConfiguration() {
-    this.apiKey = vscode.workspace.getConfiguration('perpo').get('apiKey', '');
-    this.model = vscode.workspace.getConfiguration('perpo').get('model', 'sonar');
-    this.enabled = vscode.workspace.getConfiguration('perpo').get('enabled', true);
-    console.log('🔄 Configuration updated');
-    console.log('🔑 API Key present:', !!this.apiKey);
-    console.log('🤖 Model:', this.model);
-    console.log('✅ Enabled:', this.enabled);
+  // Relative paths are inside the first workspace folder, or the home directory without one
+  private resolveFixturesDirectory(directory: string): string {
+    const root = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath ?? os.homedir();
+    return path.resolve(root, directory);
+  }
+
+  public dispose() {
+    this.cancelPendingRequest();
+    this.usageListener.dispose();
+    this.stateEmitter.dispose();
   }
 }
 
-export function activate(context: vscode.ExtensionContext) {
-  console.log('🎉 Perplexity Copilot is now active!');
+export async function activate(context: vscode.ExtensionContext) {
+  logger.setLevel(vscode.workspace.getConfiguration('perpo').get<LogLevel>('logLevel', 'info'));
+  logger.info('Perpo is now active');
 
-  const provider = new PerplexityCompletionProvider();
+  const keyStore = new ApiKeyStore(context.secrets, context.globalState);
+  if (await keyStore.migrateFromSettings()) {
+    logger.info('Moved API key from settings into secret storage');
+  }
+
+  // Shared by every completion path so repeated requests never hit the network twice
+  const cache = new CompletionCache();
+  const crossFile = new CrossFileContext();
+  const usage = new UsageTracker(context.globalState);
+  const suggestions = new SuggestionTracker(context.globalState, usage);
+  const projectConfig = new ProjectConfig();
+  await projectConfig.loadAll();
+  const redactor = new Redactor();
+  const audit = new RequestAudit();
+  // Edits are previewed as a diff before they are applied
+  const diffPreview = new DiffPreview();
+  const inserter = new GenerationInserter(diffPreview);
+  const provider = new PerplexityCompletionProvider(cache, keyStore, crossFile, usage, suggestions, projectConfig, redactor, audit, inserter);
+  await provider.updateConfiguration();
+
+  // New prompts or sampling settings make cached suggestions stale
+  const projectConfigListener = projectConfig.onDidChange(() => cache.clear());
   
-  // Register inline completion provider for all languages
+  // Register inline completion provider for files; languages and paths are filtered per request
   const completionProvider = vscode.languages.registerInlineCompletionItemProvider(
-    { pattern: '**' },
+    completionSelector,
     provider
   );
 
-  console.log('✅ Inline completion provider registered');
+  logger.debug('Inline completion provider registered');
+
+  const statusBar = new PerpoStatusBar(provider.state, provider.onDidChangeState);
+  const showMenuCommand = vscode.commands.registerCommand('perpo.showMenu', () => statusBar.showMenu());
 
   // Register commands
   const enableCommand = vscode.commands.registerCommand('perpo.enable', () => {
     vscode.workspace.getConfiguration('perpo').update('enabled', true, true);
     provider.updateConfiguration();
     vscode.window.showInformationMessage('Perplexity Copilot enabled!');
-    console.log('✅ Extension enabled via command');
+    logger.info('Extension enabled via command');
   });
 
   const disableCommand = vscode.commands.registerCommand('perpo.disable', () => {
     vscode.workspace.getConfiguration('perpo').update('enabled', false, true);
     provider.updateConfiguration();
     vscode.window.showInformationMessage('Perplexity Copilot disabled!');
-    console.log('❌ Extension disabled via command');
+    logger.info('Extension disabled via command');
+  });
+
+  const triggerCommand = vscode.commands.registerCommand('perpo.triggerSuggestion', () =>
+    vscode.commands.executeCommand('editor.action.inlineSuggest.trigger')
+  );
+
+  const moreSuggestionsCommand = vscode.commands.registerCommand('perpo.requestMoreSuggestions', () => {
+    provider.requestAlternatives();
+    return vscode.commands.executeCommand('editor.action.inlineSuggest.trigger');
+  });
+
+  const showLogsCommand = vscode.commands.registerCommand('perpo.showLogs', () => logger.show());
+
+  const showUsageCommand = vscode.commands.registerCommand('perpo.showUsage', () => UsagePanel.show(usage, suggestions));
+
+  const chatView = new ChatViewProvider(context.workspaceState, usage, projectConfig, mode => provider.backendFor(mode));
+  const chatViewRegistration = vscode.window.registerWebviewViewProvider(ChatViewProvider.viewId, chatView, {
+    webviewOptions: { retainContextWhenHidden: true }
+  });
+  const openChatCommand = vscode.commands.registerCommand('perpo.openChat', () =>
+    vscode.commands.executeCommand(`${ChatViewProvider.viewId}.focus`)
+  );
+
+  // Commands on the selection
+  const selectionEditor = new SelectionEditor(mode => provider.backendFor(mode), usage, projectConfig, diffPreview);
+  const selectionCommands = [
+    vscode.commands.registerCommand('perpo.explainSelection', async () => {
+      await vscode.commands.executeCommand(`${ChatViewProvider.viewId}.focus`);
+      await chatView.ask('Explain what this code does.');
+    }),
+    vscode.commands.registerCommand('perpo.refactorSelection', () => selectionEditor.refactor()),
+    vscode.commands.registerCommand('perpo.addDocComments', () => selectionEditor.addDocComments()),
+    vscode.commands.registerCommand('perpo.generateTests', () => selectionEditor.generateTests()),
+    vscode.commands.registerCommand('perpo.fixError', (uri?: vscode.Uri, diagnostic?: vscode.Diagnostic) =>
+      selectionEditor.fixError(uri, diagnostic)
+    ),
+    vscode.commands.registerCommand('perpo.fixAllErrors', (uri?: vscode.Uri) => selectionEditor.fixAllErrors(uri))
+  ];
+
+  // "Fix with Perpo" in the lightbulb for any diagnostic
+  const codeActionProvider = vscode.languages.registerCodeActionsProvider(completionSelector, new FixCodeActionProvider(), {
+    providedCodeActionKinds: FixCodeActionProvider.providedCodeActionKinds
+  });
+
+  // The sparkle button in the Source Control title bar
+  const commitMessages = new CommitMessageGenerator(mode => provider.backendFor(mode), usage, projectConfig);
+  const commitMessageCommand = vscode.commands.registerCommand('perpo.generateCommitMessage', (sourceControl?: vscode.SourceControl) =>
+    commitMessages.generate(sourceControl)
+  );
+
+  const runTemplateCommand = vscode.commands.registerCommand('perpo.runTemplate', () =>
+    runPromptTemplate(projectConfig, chatView, selectionEditor)
+  );
+
+  const showSentRequestsCommand = vscode.commands.registerCommand('perpo.showSentRequests', () => audit.show());
+
+  const clearUsageCommand = vscode.commands.registerCommand('perpo.clearUsage', async () => {
+    const confirmation = await vscode.window.showWarningMessage(
+      'Perpo: Delete all recorded usage data?',
+      { modal: true },
+      'Delete'
+    );
+    if (confirmation === 'Delete') {
+      await usage.clear();
+      await suggestions.clear();
+      logger.info('Usage data cleared via command');
+    }
+  });
+
+  // Run by VS Code when an inline suggestion is accepted in full
+  const acceptedCommand = vscode.commands.registerCommand('perpo.suggestionAccepted', (id: number) => suggestions.accept(id));
+  const generationAcceptedCommand = vscode.commands.registerCommand('perpo.generationAccepted', async (id: number, inserted: InsertedGeneration) => {
+    suggestions.accept(id);
+    await inserter.finish(inserted);
+  });
+
+  const setApiKeyCommand = vscode.commands.registerCommand('perpo.setApiKey', async () => {
+    if (await keyStore.promptForKey()) {
+      vscode.window.showInformationMessage('Perpo: API key saved to secret storage.');
+      logger.info('API key set via command');
+    }
+  });
+
+  const clearApiKeyCommand = vscode.commands.registerCommand('perpo.clearApiKey', async () => {
+    await keyStore.clear();
+    vscode.window.showInformationMessage('Perpo: API key removed.');
+    logger.info('API key cleared via command');
   });
 
   // Listen for configuration changes
-  const configChangeListener = vscode.workspace.onDidChangeConfiguration(event => {
+  const configChangeListener = vscode.workspace.onDidChangeConfiguration(async event => {
     if (event.affectsConfiguration('perpo')) {
-      console.log('🔄 Configuration changed');
+      logger.debug('Configuration changed');
+      // A key pasted into settings.json is moved out again straight away
+      if (event.affectsConfiguration('perpo.apiKey') && await keyStore.migrateFromSettings()) {
+        logger.info('Moved API key from settings into secret storage');
+      }
+      // Cached suggestions were made with the old sampling settings
+      if (event.affectsConfiguration('perpo.modes')) {
+        cache.clear();
+      }
       provider.updateConfiguration();
     }
   });
 
+  const keyChangeListener = keyStore.onDidChange(() => {
+    logger.debug('API key changed');
+    provider.updateConfiguration();
+  });
+
   // Add to subscriptions for proper cleanup
   context.subscriptions.push(
+    provider,
     completionProvider,
+    statusBar,
+    showMenuCommand,
+    showLogsCommand,
+    showUsageCommand,
+    clearUsageCommand,
+    showSentRequestsCommand,
+    chatView,
+    chatViewRegistration,
+    openChatCommand,
+    diffPreview,
+    ...selectionCommands,
+    codeActionProvider,
+    runTemplateCommand,
+    commitMessageCommand,
+    projectConfig,
+    projectConfigListener,
+    acceptedCommand,
+    generationAcceptedCommand,
+    triggerCommand,
+    moreSuggestionsCommand,
     enableCommand,
     disableCommand,
-    configChangeListener
+    setApiKeyCommand,
+    clearApiKeyCommand,
+    configChangeListener,
+    keyChangeListener,
+    keyStore,
+    crossFile,
+    suggestions,
+    usage,
+    logger
   );
 
-  // Show setup message if API key is not configured
-  const apiKey = vscode.workspace.getConfiguration('perpo').get('apiKey', '');
-  if (!apiKey) {
-    console.log('⚠️ No API key configured');
+  // Ask for the API key if the backend needs one and none is stored
+  if (provider.isMissingApiKey()) {
+    logger.warn('No API key configured');
     vscode.window.showWarningMessage(
-      'Perpo: Please configure your API key in settings.',
-      'Open Settings'
+      'Perpo: No API key is set for the completion backend.',
+      'Set API Key'
     ).then(selection => {
-      if (selection === 'Open Settings') {
-        vscode.commands.executeCommand('workbench.action.openSettings', 'perpo.apiKey');
+      if (selection === 'Set API Key') {
+        keyStore.promptForKey();
       }
     });
   }
 }
 
+// Picks one of the project's named prompt templates, fills in its variables and
+// sends it to chat or runs it as an edit of the selection
+async function runPromptTemplate(projectConfig: ProjectConfig, chatView: ChatViewProvider, selectionEditor: SelectionEditor) {
+  const editor = vscode.window.activeTextEditor;
+  const templates = projectConfig.templates(editor?.document.uri);
+  const names = Object.keys(templates);
+  if (names.length === 0) {
+    vscode.window.showInformationMessage('Perpo: No prompt templates are defined. Add them under "templates" in .perpo.json.');
+    return;
+  }
+
+  const picked = await vscode.window.showQuickPick(
+    names.map(name => ({ label: name, description: templates[name].mode, detail: templates[name].description })),
+    { title: 'Perpo: Run Prompt Template' }
+  );
+  if (!picked) {
+    return;
+  }
+
+  const template = templates[picked.label];
+  const document = editor?.document;
+  const prompt = fillTemplate(template.prompt, {
+    language: document?.languageId ?? '',
+    fileName: document ? vscode.workspace.asRelativePath(document.uri) : '',
+    selection: document && editor && !editor.selection.isEmpty ? document.getText(editor.selection) : ''
+  });
+
+  if (template.mode === 'edit') {
+    await selectionEditor.runInstruction(prompt, picked.label);
+  } else {
+    await vscode.commands.executeCommand(`${ChatViewProvider.viewId}.focus`);
+    await chatView.ask(prompt);
+  }
+}
+
 export function deactivate() {
-  console.log('👋 Perplexity Copilot deactivated');
+  logger.info('Perpo deactivated');
 }
@@ -0,0 +1,81 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import { ChatMessage, TokenUsage } from './backends';
+
+// The parts of a request that decide the response; timeouts and signals don't
+export interface FixtureRequest {
+  model: string;
+  messages: ChatMessage[];
+  maxTokens: number;
+  temperature: number;
+}
+
+// One recorded request/response pair, stored as `<key>.json`
+export interface Fixture {
+  key: string;
+  recordedAt: string;
+  request: FixtureRequest;
+  response: string | null;
+  // Text of each streamed chunk, when the response was streamed
+  chunks?: string[];
+  usage?: TokenUsage;
+  citations?: string[];
+}
+
+// Line endings and trailing whitespace differ between machines and editors;
+// they shouldn't make a recorded response miss
+export function normalizeRequest(request: FixtureRequest): FixtureRequest {
+  return {
+    model: request.model,
+    messages: request.messages.map(message => ({
+      role: message.role,
+      content: message.content.replace(/\r\n/g, '\n').replace(/[ \t]+$/gm, '').trim()
+    })),
+    maxTokens: request.maxTokens,
+    temperature: Math.round(request.temperature * 100) / 100
+  };
+}
+
+export function fixtureKey(request: FixtureRequest): string {
+  return createHash('sha256').update(JSON.stringify(normalizeRequest(request))).digest('hex').substring(0, 16);
+}
+
+// Replaces every occurrence of the secrets, so recordings can be shared
+export function stripSecrets<T>(value: T, secrets: string[]): T {
+  const present = secrets.filter(secret => secret.length > 0);
+  if (present.length === 0) {
+    return value;
+  }
+  let json = JSON.stringify(value);
+  for (const secret of present) {
+    json = json.split(JSON.stringify(secret).slice(1, -1)).join('[REDACTED]');
+  }
+  return JSON.parse(json) as T;
+}
+
+// A directory of fixtures; shared by the replay backend and the mock server
+export class FixtureStore {
+  constructor(public readonly directory: string) {}
+
+  public async get(request: FixtureRequest): Promise<Fixture | undefined> {
+    try {
+      const text = await fs.promises.readFile(this.fileFor(fixtureKey(request)), 'utf8');
+      return JSON.parse(text) as Fixture;
+    } catch {
+      return undefined;
+    }
+  }
+
+  public async save(fixture: Omit<Fixture, 'key' | 'recordedAt'>, secrets: string[] = []): Promise<string> {
+    const key = fixtureKey(fixture.request);
+    const stored: Fixture = stripSecrets({ key, recordedAt: new Date().toISOString(), ...fixture }, secrets);
+    await fs.promises.mkdir(this.directory, { recursive: true });
+    await fs.promises.writeFile(this.fileFor(key), `${JSON.stringify(stored, null, 2)}\n`, 'utf8');
+    return key;
+  }
+
+  private fileFor(key: string): string {
+    return path.join(this.directory, `${key}.json`);
+  }
+}
@@ -0,0 +1,178 @@
+import * as vscode from 'vscode';
+import { getImportLines, isImportLine } from './contextExtractor';
+import { DiffPreview } from './diffPreview';
+import { logger } from './logger';
+
+// `below` keeps the prompt comment, `replace` removes it once the code is accepted,
+// `diff` proposes the code in a diff instead of as an inline suggestion
+export type InsertMode = 'below' | 'replace' | 'diff';
+
+export interface PreparedGeneration {
+  // Re-indented to the prompt comment's column, without the imports
+  code: string;
+  imports: string[];
+}
+
+// What the accept command needs to finish an accepted inline generation
+export interface InsertedGeneration {
+  uri: string;
+  // The prompt comment's line; the text was inserted at its end
+  line: number;
+  text: string;
+  imports: string[];
+  replaceComment: boolean;
+}
+
+interface ImportInsertion {
+  position: vscode.Position;
+  text: string;
+  lineCount: number;
+}
+
+function minIndent(lines: string[]): number {
+  const indents = lines.filter(line => line.trim()).map(line => line.length - line.trimStart().length);
+  return indents.length > 0 ? Math.min(...indents) : 0;
+}
+
+// Top-level imports in the generated code, including the rest of multi-line ones
+// like `import {\n  a,\n} from 'x'`, are taken out to be hoisted
+export function prepareGeneration(code: string, indent: string): PreparedGeneration {
+  const lines = code.split('\n');
+  const base = minIndent(lines);
+  const imports: string[] = [];
+  const body: string[] = [];
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const topLevel = line.length - line.trimStart().length === base;
+    if (!topLevel || !isImportLine(line)) {
+      body.push(line);
+      continue;
+    }
+
+    const statement = [line.substring(base)];
+    const closer = line.includes('{') && !line.includes('}') ? '}' : line.includes('(') && !line.includes(')') ? ')' : undefined;
+    while (closer && i + 1 < lines.length && !statement[statement.length - 1].includes(closer)) {
+      statement.push(lines[++i].substring(Math.min(base, minIndent([lines[i]]))));
+    }
+    imports.push(statement.join('\n'));
+  }
+
+  // Drop the blank lines that separated the imports from the code
+  while (body.length > 0 && !body[0].trim()) {
+    body.shift();
+  }
+  const rebased = body.map(line => line.trim() ? indent + line.substring(base) : '');
+  return { code: rebased.join('\n').trimEnd(), imports };
+}
+
+// Puts generated code in place: hoists its imports, removes the prompt comment if
+// asked to and runs the document's formatter over the code
+export class GenerationInserter {
+  constructor(private readonly preview: DiffPreview) {}
+
+  // Called after VS Code inserted an accepted inline generation
+  public async finish(inserted: InsertedGeneration) {
+    const document = vscode.workspace.textDocuments.find(candidate => candidate.uri.toString() === inserted.uri);
+    if (!document || inserted.line >= document.lineCount) {
+      return;
+    }
+
+    // Only tidy up if the text is still where it was inserted
+    const start = document.lineAt(inserted.line).range.end;
+    const end = document.positionAt(document.offsetAt(start) + inserted.text.length);
+    if (document.getText(new vscode.Range(start, end)) !== inserted.text) {
+      logger.debug('Generated code moved before it could be tidied up');
+      return;
+    }
+
+    const edit = new vscode.WorkspaceEdit();
+    const imports = this.planImports(document, inserted.imports, inserted.line);
+    if (imports) {
+      edit.insert(document.uri, imports.position, imports.text);
+    }
+    if (inserted.replaceComment) {
+      edit.delete(document.uri, new vscode.Range(inserted.line, 0, inserted.line + 1, 0));
+    }
+    if (edit.size > 0 && !await vscode.workspace.applyEdit(edit)) {
+      return;
+    }
+
+    const codeLines = inserted.text.split('\n').length - 1;
+    const firstLine = inserted.line + 1 + (imports?.lineCount ?? 0) - (inserted.replaceComment ? 1 : 0);
+    await this.format(document, firstLine, firstLine + codeLines - 1);
+  }
+
+  // Shows the file with the code and its imports added, and applies it if accepted
+  public async proposeDiff(document: vscode.TextDocument, line: number, prepared: PreparedGeneration) {
+    const text = document.getText();
+    const insertions: Array<{ offset: number; text: string }> = [
+      { offset: document.offsetAt(document.lineAt(line).range.end), text: `\n${prepared.code}` }
+    ];
+    const imports = this.planImports(document, prepared.imports, line);
+    if (imports) {
+      insertions.push({ offset: document.offsetAt(imports.position), text: imports.text });
+    }
+
+    let proposed = text;
+    for (const insertion of insertions.sort((a, b) => b.offset - a.offset)) {
+      proposed = proposed.substring(0, insertion.offset) + insertion.text + proposed.substring(insertion.offset);
+    }
+
+    const fullRange = new vscode.Range(document.positionAt(0), document.positionAt(text.length));
+    if (await this.preview.propose(document, fullRange, proposed, 'Generate Code')) {
+      const firstLine = line + 1 + (imports?.lineCount ?? 0);
+      await this.format(document, firstLine, firstLine + prepared.code.split('\n').length - 1);
+    }
+  }
+
+  // Imports the file doesn't have yet go after its last import above the prompt,
+  // or at the top of the file (after a shebang) if it has none
+  private planImports(document: vscode.TextDocument, imports: string[], beforeLine: number): ImportInsertion | undefined {
+    const existing = new Set(document.getText().split('\n').map(line => line.trim()));
+    const missing = imports.filter(statement => !statement.split('\n').every(line => existing.has(line.trim())));
+    if (missing.length === 0) {
+      return undefined;
+    }
+
+    const text = missing.join('\n');
+    const lineCount = text.split('\n').length;
+    const importLines = getImportLines(document, beforeLine);
+    if (importLines.length > 0) {
+      const last = importLines[importLines.length - 1];
+      return { position: document.lineAt(last).range.end, text: `\n${text}`, lineCount };
+    }
+
+    const top = document.lineCount > 0 && document.lineAt(0).text.startsWith('#!') ? 1 : 0;
+    return { position: new vscode.Position(top, 0), text: `${text}\n\n`, lineCount: lineCount + 1 };
+  }
+
+  private async format(document: vscode.TextDocument, startLine: number, endLine: number) {
+    if (!vscode.workspace.getConfiguration('perpo', document).get('generation.format', true) || endLine < startLine) {
+      return;
+    }
+
+    const editor = vscode.window.visibleTextEditors.find(candidate => candidate.document === document);
+    const options: vscode.FormattingOptions = {
+      tabSize: typeof editor?.options.tabSize === 'number' ? editor.options.tabSize : 4,
+      insertSpaces: typeof editor?.options.insertSpaces === 'boolean' ? editor.options.insertSpaces : true
+    };
+    const range = new vscode.Range(startLine, 0, endLine, document.lineAt(Math.min(endLine, document.lineCount - 1)).text.length);
+
+    try {
+      const edits = await vscode.commands.executeCommand<vscode.TextEdit[] | undefined>(
+        'vscode.executeFormatRangeProvider',
+        document.uri,
+        range,
+        options
+      );
+      if (edits && edits.length > 0) {
+        const edit = new vscode.WorkspaceEdit();
+        edit.set(document.uri, edits);
+        await vscode.workspace.applyEdit(edit);
+      }
+    } catch (error) {
+      logger.debug('Formatting generated code failed:', error);
+    }
+  }
+}
@@ -0,0 +1,106 @@
+import * as vscode from 'vscode';
+import axios from 'axios';
+
+export type LogLevel = 'off' | 'error' | 'warn' | 'info' | 'debug' | 'trace';
+
+const levelOrder: LogLevel[] = ['off', 'error', 'warn', 'info', 'debug', 'trace'];
+
+class Logger implements vscode.Disposable {
+  private channel: vscode.LogOutputChannel | undefined;
+  private level: LogLevel = 'info';
+  private secrets: string[] = [];
+
+  public setLevel(level: LogLevel) {
+    this.level = levelOrder.includes(level) ? level : 'info';
+  }
+
+  // Values that must never reach the log, such as the API key
+  public setSecrets(secrets: string[]) {
+    this.secrets = secrets.filter(secret => secret.length > 0);
+  }
+
+  public error(message: string, ...args: unknown[]) {
+    if (this.isEnabled('error')) {
+      this.getChannel().error(this.format(message, args));
+    }
+  }
+
+  public warn(message: string, ...args: unknown[]) {
+    if (this.isEnabled('warn')) {
+      this.getChannel().warn(this.format(message, args));
+    }
+  }
+
+  public info(message: string, ...args: unknown[]) {
+    if (this.isEnabled('info')) {
+      this.getChannel().info(this.format(message, args));
+    }
+  }
+
+  public debug(message: string, ...args: unknown[]) {
+    if (this.isEnabled('debug')) {
+      this.getChannel().debug(this.format(message, args));
+    }
+  }
+
+  public trace(message: string, ...args: unknown[]) {
+    if (this.isEnabled('trace')) {
+      this.getChannel().trace(this.format(message, args));
+    }
+  }
+
+  // Document text, prompts and model output: logged in full at trace, summarised otherwise
+  public content(label: string, text: string) {
+    if (this.isEnabled('trace')) {
+      this.trace(`${label}:\n${text}`);
+    } else {
+      this.debug(`${label}: [${text.length} characters]`);
+    }
+  }
+
+  public show() {
+    this.getChannel().show(true);
+  }
+
+  public dispose() {
+    this.channel?.dispose();
+    this.channel = undefined;
+  }
+
+  private isEnabled(level: LogLevel): boolean {
+    return level !== 'off' && levelOrder.indexOf(level) <= levelOrder.indexOf(this.level);
+  }
+
+  private getChannel(): vscode.LogOutputChannel {
+    if (!this.channel) {
+      this.channel = vscode.window.createOutputChannel('Perpo', { log: true });
+    }
+    return this.channel;
+  }
+
+  private format(message: string, args: unknown[]): string {
+    const text = [message, ...args.map(arg => this.formatArg(arg))].join(' ');
+    return this.secrets.reduce((result, secret) => result.split(secret).join('[REDACTED]'), text);
+  }
+
+  private formatArg(arg: unknown): string {
+    if (axios.isAxiosError(arg)) {
+      // Never dump the request config - it carries the Authorization header
+      const status = arg.response?.status ? ` (status ${arg.response.status})` : '';
+      return `${arg.message}${status}`;
+    }
+    if (arg instanceof Error) {
+      return arg.stack ?? arg.message;
+    }
+    if (typeof arg === 'string') {
+      return arg;
+    }
+    try {
+      return JSON.stringify(arg);
+    } catch {
+      return String(arg);
+    }
+  }
+}
+
+export const logger = new Logger();
@@ -0,0 +1,119 @@
+// Small Markdown renderer for chat answers: fenced code, headings, lists, quotes,
+// emphasis, inline code and links. Everything is escaped first, so model output
+// can never inject markup into the webview.
+
+export function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`);
+}
+
+// `[1]`-style references link to the matching citation when there is one
+export function renderMarkdown(text: string, citations: string[] = []): string {
+  const lines = text.split('\n');
+  const html: string[] = [];
+  let paragraph: string[] = [];
+  let list: { ordered: boolean; items: string[] } | null = null;
+
+  const flushParagraph = () => {
+    if (paragraph.length > 0) {
+      html.push(`<p>${renderInline(paragraph.join(' '), citations)}</p>`);
+      paragraph = [];
+    }
+  };
+  const flushList = () => {
+    if (list) {
+      const tag = list.ordered ? 'ol' : 'ul';
+      html.push(`<${tag}>${list.items.map(item => `<li>${renderInline(item, citations)}</li>`).join('')}</${tag}>`);
+      list = null;
+    }
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    // Fenced code runs to the closing fence, or to the end while it is still streaming
+    const fence = /^\s*(```|~~~)\s*([\w#+.-]*)/.exec(line);
+    if (fence) {
+      flushParagraph();
+      flushList();
+      const code: string[] = [];
+      for (i++; i < lines.length && !lines[i].trim().startsWith(fence[1]); i++) {
+        code.push(lines[i]);
+      }
+      html.push(renderCodeBlock(code.join('\n'), fence[2]));
+      continue;
+    }
+
+    const heading = /^(#{1,6})\s+(.*)$/.exec(line);
+    const bullet = /^\s*[-*+]\s+(.*)$/.exec(line);
+    const numbered = /^\s*\d+[.)]\s+(.*)$/.exec(line);
+    const quote = /^\s*>\s?(.*)$/.exec(line);
+
+    if (!line.trim()) {
+      flushParagraph();
+      flushList();
+    } else if (heading) {
+      flushParagraph();
+      flushList();
+      // Chat answers are small; keep their headings from dwarfing the panel
+      const level = Math.min(6, heading[1].length + 2);
+      html.push(`<h${level}>${renderInline(heading[2], citations)}</h${level}>`);
+    } else if (bullet || numbered) {
+      flushParagraph();
+      const ordered = !bullet;
+      if (list && list.ordered !== ordered) {
+        flushList();
+      }
+      list = list ?? { ordered, items: [] };
+      list.items.push((bullet ?? numbered)![1]);
+    } else if (quote) {
+      flushParagraph();
+      flushList();
+      html.push(`<blockquote>${renderInline(quote[1], citations)}</blockquote>`);
+    } else if (list && /^\s+\S/.test(line)) {
+      // Continuation of the previous list item
+      list.items[list.items.length - 1] += ` ${line.trim()}`;
+    } else {
+      flushList();
+      paragraph.push(line.trim());
+    }
+  }
+
+  flushParagraph();
+  flushList();
+  return html.join('\n');
+}
+
+function renderCodeBlock(code: string, language: string): string {
+  const languageClass = language ? ` class="language-${escapeHtml(language)}"` : '';
+  return `<div class="code-block">
+<div class="code-actions"><button data-action="insert" title="Insert at cursor">Insert</button><button data-action="copy" title="Copy to clipboard">Copy</button></div>
+<pre><code${languageClass}>${escapeHtml(code)}</code></pre>
+</div>`;
+}
+
+function renderInline(text: string, citations: string[]): string {
+  // Code spans are taken literally, so format only the text between them
+  return text.split(/(`[^`]+`)/).map(part => {
+    if (part.length > 2 && part.startsWith('`') && part.endsWith('`')) {
+      return `<code>${escapeHtml(part.slice(1, -1))}</code>`;
+    }
+
+    // Links are set aside while emphasis is applied, so underscores and asterisks
+    // in their URLs stay as they are
+    const links: string[] = [];
+    const setAside = (link: string) => `\u0000${links.push(link) - 1}\u0000`;
+    let html = escapeHtml(part.replace(/\u0000/g, ''));
+    html = html.replace(/\[([^\]]+)\]\((https?:\/\/[^\s)]+)\)/g, (_, label: string, url: string) => setAside(`<a href="${url}">${emphasize(label)}</a>`));
+    html = html.replace(/\[(\d+)\]/g, (match, number: string) => {
+      const url = citations[Number(number) - 1];
+      return url ? setAside(`<a class="citation" href="${escapeHtml(url)}">[${number}]</a>`) : match;
+    });
+    return emphasize(html).replace(/\u0000(\d+)\u0000/g, (_, index: string) => links[Number(index)]);
+  }).join('');
+}
+
+function emphasize(html: string): string {
+  html = html.replace(/\*\*(.+?)\*\*|__(.+?)__/g, (_, a: string | undefined, b: string | undefined) => `<strong>${a ?? b}</strong>`);
+  return html.replace(/(^|[^*\w])\*(?!\s)(.+?)\*(?!\w)|(^|\W)_(?!\s)(.+?)_(?!\w)/g,
+    (_, lead1: string | undefined, a: string | undefined, lead2: string | undefined, b: string | undefined) => `${lead1 ?? lead2 ?? ''}<em>${a ?? b}</em>`);
+}
@@ -0,0 +1,168 @@
+import * as http from 'http';
+import * as path from 'path';
+import { ChatMessage } from './backends';
+import { Fixture, FixtureStore, fixtureKey } from './fixtures';
+
+// A stand-in for a /chat/completions server that answers from recorded fixtures.
+// It needs nothing from VS Code, so it runs on its own:
+//
+//   node out/mockServer.js --fixtures .perpo/fixtures --port 8787
+//
+// Point the `openai` or `local` backend at http://localhost:8787 to use it.
+
+export interface MockServerOptions {
+  fixturesDirectory: string;
+  port: number;
+  // Delay between streamed chunks, to exercise debouncing and cancellation
+  chunkDelayMs?: number;
+  // Answer requests without a fixture with this text instead of a 404
+  fallback?: string;
+}
+
+interface RequestBody {
+  model?: string;
+  messages?: ChatMessage[];
+  max_tokens?: number;
+  temperature?: number;
+  stream?: boolean;
+}
+
+function sendJson(response: http.ServerResponse, status: number, body: object) {
+  response.writeHead(status, { 'Content-Type': 'application/json' });
+  response.end(JSON.stringify(body));
+}
+
+function sendError(response: http.ServerResponse, status: number, message: string) {
+  sendJson(response, status, { error: { message, type: 'mock_server_error' } });
+}
+
+function readBody(request: http.IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let body = '';
+    request.setEncoding('utf8');
+    request.on('data', chunk => body += chunk);
+    request.on('end', () => resolve(body));
+    request.on('error', reject);
+  });
+}
+
+function delay(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+// Server-sent events in the same shape as the real APIs, ending with usage and [DONE]
+async function sendStream(response: http.ServerResponse, fixture: Fixture, chunkDelayMs: number) {
+  response.writeHead(200, { 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache', Connection: 'keep-alive' });
+  const send = (data: object) => response.write(`data: ${JSON.stringify(data)}\n\n`);
+
+  const chunks = fixture.chunks ?? (fixture.response ? [fixture.response] : []);
+  for (const [index, content] of chunks.entries()) {
+    if (response.destroyed) {
+      return;
+    }
+    send({ choices: [{ index: 0, delta: { content } }], ...(index === 0 && fixture.citations ? { citations: fixture.citations } : {}) });
+    if (chunkDelayMs > 0) {
+      await delay(chunkDelayMs);
+    }
+  }
+
+  send({
+    choices: [{ index: 0, delta: {}, finish_reason: 'stop' }],
+    ...(fixture.usage ? { usage: { prompt_tokens: fixture.usage.promptTokens, completion_tokens: fixture.usage.completionTokens } } : {})
+  });
+  response.end('data: [DONE]\n\n');
+}
+
+function sendCompletion(response: http.ServerResponse, fixture: Fixture) {
+  sendJson(response, 200, {
+    id: `mock-${fixture.key}`,
+    object: 'chat.completion',
+    model: fixture.request.model,
+    choices: [{ index: 0, message: { role: 'assistant', content: fixture.response ?? '' }, finish_reason: 'stop' }],
+    ...(fixture.usage ? { usage: { prompt_tokens: fixture.usage.promptTokens, completion_tokens: fixture.usage.completionTokens } } : {}),
+    ...(fixture.citations ? { citations: fixture.citations } : {})
+  });
+}
+
+export function startMockServer(options: MockServerOptions): Promise<http.Server> {
+  const store = new FixtureStore(options.fixturesDirectory);
+
+  const server = http.createServer(async (request, response) => {
+    try {
+      if (request.method !== 'POST' || !request.url?.replace(/\?.*$/, '').endsWith('/chat/completions')) {
+        sendError(response, 404, `Only POST /chat/completions is served, not ${request.method} ${request.url}`);
+        return;
+      }
+
+      let body: RequestBody;
+      try {
+        body = JSON.parse(await readBody(request)) as RequestBody;
+      } catch {
+        sendError(response, 400, 'The request body is not valid JSON');
+        return;
+      }
+      if (!Array.isArray(body.messages)) {
+        sendError(response, 400, 'messages is required');
+        return;
+      }
+
+      const fixtureRequest = {
+        model: body.model ?? '',
+        messages: body.messages,
+        maxTokens: body.max_tokens ?? 0,
+        temperature: body.temperature ?? 0
+      };
+      const key = fixtureKey(fixtureRequest);
+      let fixture = await store.get(fixtureRequest);
+      if (!fixture && options.fallback !== undefined) {
+        fixture = { key, recordedAt: '', request: fixtureRequest, response: options.fallback };
+      }
+      if (!fixture) {
+        console.log(`miss ${key}`);
+        sendError(response, 404, `No recorded response for this request (expected ${key}.json in ${store.directory})`);
+        return;
+      }
+
+      console.log(`${body.stream ? 'stream' : 'complete'} ${key}`);
+      if (body.stream) {
+        await sendStream(response, fixture, options.chunkDelayMs ?? 0);
+      } else {
+        sendCompletion(response, fixture);
+      }
+    } catch (error) {
+      console.error(error);
+      if (!response.headersSent) {
+        sendError(response, 500, String(error));
+      } else {
+        response.end();
+      }
+    }
+  });
+
+  return new Promise((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(options.port, '127.0.0.1', () => resolve(server));
+  });
+}
+
+if (require.main === module) {
+  const args = process.argv.slice(2);
+  const option = (name: string) => {
+    const index = args.indexOf(`--${name}`);
+    return index >= 0 ? args[index + 1] : undefined;
+  };
+
+  const options: MockServerOptions = {
+    fixturesDirectory: path.resolve(option('fixtures') ?? '.perpo/fixtures'),
+    port: Number(option('port') ?? 8787),
+    chunkDelayMs: Number(option('chunk-delay') ?? 0),
+    fallback: option('fallback')
+  };
+  startMockServer(options).then(
+    () => console.log(`Serving fixtures from ${options.fixturesDirectory} at http://localhost:${options.port}`),
+    error => {
+      console.error(`Could not start the mock server: ${error}`);
+      process.exit(1);
+    }
+  );
+}
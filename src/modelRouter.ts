@@ -0,0 +1,149 @@
+import * as vscode from 'vscode';
+import { ChatRequest, CompletionBackend, StreamListener } from './backends';
+import { PromptMode } from './projectConfig';
+import { ResilientBackend, classifyError } from './resilientBackend';
+import { logger } from './logger';
+
+// Which models answer the requests of one mode, from `perpo.modes`
+export interface ModelRoute {
+  model: string;
+  // Asked when the model fails or times out, or while its requests are paused
+  fallbackModel?: string;
+  // Asked instead of `model` for explicit triggers only
+  escalationModel?: string;
+}
+
+// A backend that can tell whether automatic requests should be held back
+export interface RoutedBackend extends CompletionBackend {
+  isCircuitOpen(): boolean;
+}
+
+const modes: PromptMode[] = ['completion', 'generation', 'edit', 'chat', 'commit'];
+
+function optionalString(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
+// Every mode uses `perpo.model` unless `perpo.modes` names another model for it
+export function readModelRoutes(config: vscode.WorkspaceConfiguration): Record<PromptMode, ModelRoute> {
+  const defaultModel = config.get('model', 'sonar');
+  const configured = config.get<Record<string, Record<string, unknown> | undefined>>('modes', {});
+  const routes = {} as Record<PromptMode, ModelRoute>;
+  for (const mode of modes) {
+    const settings = configured[mode] ?? {};
+    routes[mode] = {
+      model: optionalString(settings.model) ?? defaultModel,
+      fallbackModel: optionalString(settings.fallbackModel),
+      escalationModel: optionalString(settings.escalationModel)
+    };
+  }
+  return routes;
+}
+
+// Sends to the fallback model when the primary one fails, but never once streamed
+// text has reached the caller, since the fallback would start the answer over
+export class FallbackBackend implements RoutedBackend {
+  constructor(private readonly primary: ResilientBackend, private readonly fallback: ResilientBackend) {}
+
+  public get name(): string {
+    return this.primary.name;
+  }
+
+  public get requiresApiKey(): boolean {
+    return this.primary.requiresApiKey;
+  }
+
+  public get model(): string {
+    return this.primary.model;
+  }
+
+  public isCircuitOpen(): boolean {
+    return this.primary.isCircuitOpen() && this.fallback.isCircuitOpen();
+  }
+
+  public complete(request: ChatRequest): Promise<string | null> {
+    return this.withFallback(request, (backend, maxRetries) => backend.complete(request, maxRetries));
+  }
+
+  public stream(request: ChatRequest, onText: StreamListener): Promise<string | null> {
+    let received = false;
+    return this.withFallback(
+      request,
+      (backend, maxRetries) => backend.stream(request, text => {
+        received = true;
+        return onText(text);
+      }, maxRetries),
+      () => !received
+    );
+  }
+
+  // The primary gets no retries, so a failure reaches the fallback at once
+  private async withFallback<T>(
+    request: ChatRequest,
+    send: (backend: ResilientBackend, maxRetries?: number) => Promise<T>,
+    canFallBack = () => true
+  ): Promise<T> {
+    const askFallback = () => {
+      request.onModel?.(this.fallback.model);
+      return send(this.fallback);
+    };
+    if (this.primary.isCircuitOpen()) {
+      logger.debug(`Requests to ${this.primary.model} are paused, asking ${this.fallback.model}`);
+      return askFallback();
+    }
+
+    try {
+      return await send(this.primary, 0);
+    } catch (error) {
+      const failure = classifyError(error);
+      if (failure.kind === 'cancelled' || request.signal?.aborted || !canFallBack()) {
+        throw error;
+      }
+      logger.warn(`Model ${this.primary.model} failed (${failure.kind}${failure.status ? ` ${failure.status}` : ''}), asking ${this.fallback.model} instead`);
+      return askFallback();
+    }
+  }
+}
+
+// Picks the backend for each mode. Every model gets one circuit breaker, shared by
+// all modes, so one failing model doesn't pause requests to the others.
+export class ModelRouter {
+  private readonly backends = new Map<string, ResilientBackend>();
+
+  constructor(
+    private readonly routes: Record<PromptMode, ModelRoute>,
+    private readonly create: (model: string) => CompletionBackend
+  ) {}
+
+  // An explicit trigger escalates to the mode's escalation model, falling back to
+  // the usual model if no other fallback is set
+  public backendFor(mode: PromptMode, explicit = false): RoutedBackend {
+    const route = this.routes[mode];
+    const escalated = explicit && route.escalationModel && route.escalationModel !== route.model;
+    const model = escalated ? route.escalationModel! : route.model;
+    const fallbackModel = route.fallbackModel ?? (escalated ? route.model : undefined);
+
+    if (!fallbackModel || fallbackModel === model) {
+      return this.backend(model);
+    }
+    return new FallbackBackend(this.backend(model), this.backend(fallbackModel));
+  }
+
+  public describe(mode: PromptMode): string {
+    const route = this.routes[mode];
+    return [
+      route.model,
+      route.fallbackModel && `fallback ${route.fallbackModel}`,
+      route.escalationModel && `escalation ${route.escalationModel}`
+    ].filter(Boolean).join(', ');
+  }
+
+  private backend(model: string): ResilientBackend {
+    let backend = this.backends.get(model);
+    if (!backend) {
+      backend = new ResilientBackend(this.create(model));
+      this.backends.set(model, backend);
+    }
+    return backend;
+  }
+}
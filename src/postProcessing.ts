@@ -0,0 +1,392 @@
+import { getCommentSyntax } from './commentSyntax';
+
+export interface PostProcessContext {
+  languageId: string;
+  // Code before and after the cursor as sent to the model
+  prefix: string;
+  suffix: string;
+  // Code being replaced, when the response rewrites a range
+  original?: string;
+}
+
+// One stage of the pipeline; each takes the output of the previous one
+export type PostProcessStep = (text: string, context: PostProcessContext) => string;
+
+const openers = '([{';
+const closers = ')]}';
+
+export function runPipeline(text: string, context: PostProcessContext, steps: PostProcessStep[]): string {
+  return steps.reduce((result, step) => step(result, context), text);
+}
+
+// Indentation of the line the cursor is on
+export function getBaseIndent(prefix: string): number {
+  const cursorLine = prefix.substring(prefix.lastIndexOf('\n') + 1);
+  return cursorLine.length - cursorLine.trimStart().length;
+}
+
+// Sentences read differently from code: no code punctuation, a capitalised
+// first word and mostly plain words
+export function looksLikeProse(line: string): boolean {
+  const trimmed = line.trim();
+  if (!trimmed || !/^[A-Z]/.test(trimmed) || /[;{}()[\]=<>`]|=>|::/.test(trimmed)) {
+    return false;
+  }
+
+  const words = trimmed.split(/\s+/);
+  if (words.length < 3) {
+    return false;
+  }
+  const plainWords = words.filter(word => /^[A-Za-z][a-z'’-]*[.,:!?]?$/.test(word)).length;
+  return plainWords / words.length >= 0.75;
+}
+
+// Reasoning models think in <think> blocks; the answer is what follows them
+export const stripThinking: PostProcessStep = text => {
+  let result = text.replace(/<think>[\s\S]*?<\/think>/gi, '');
+
+  // Still thinking when the response ended: there is no answer
+  const open = result.search(/<think>/i);
+  if (open >= 0) {
+    result = result.substring(0, open);
+  }
+
+  // Streams that start mid-thought only carry the closing tag
+  const close = result.search(/<\/think>/i);
+  if (close >= 0) {
+    result = result.substring(close + '</think>'.length);
+  }
+
+  return result;
+};
+
+// Takes the first fenced code block, or everything after an unterminated fence
+export const extractCodeBlock: PostProcessStep = text => {
+  const fence = /```[^\n]*\n([\s\S]*?)(?:\n?```|$)/.exec(text);
+  return fence ? fence[1] : text;
+};
+
+// Drops explanations before the first line of code
+export const stripPreamble: PostProcessStep = text => {
+  const lines = text.split('\n');
+  const first = lines.findIndex(line => line.trim() !== '' && !looksLikeProse(line));
+  return first >= 0 ? lines.slice(first).join('\n') : '';
+};
+
+// Drops explanations after the code. Only unindented sentences after a blank
+// line count, so docstrings and wrapped comments survive.
+export const stripTrailingProse: PostProcessStep = text => {
+  const lines = text.split('\n');
+  const prose = lines.findIndex((line, i) =>
+    i > 0 && !lines[i - 1].trim() && line === line.trimStart() && looksLikeProse(line)
+  );
+  return prose >= 0 ? lines.slice(0, prose).join('\n') : text;
+};
+
+// Models sometimes repeat the part of the cursor line that is already typed
+export const stripPrefixEcho: PostProcessStep = (text, context) => {
+  const typed = context.prefix.substring(context.prefix.lastIndexOf('\n') + 1).trimStart();
+  const trimmed = text.trimStart();
+  if (typed.length < 3 || !trimmed.startsWith(typed) || trimmed.length === typed.length) {
+    return text;
+  }
+
+  // Also when the echo finishes a word: `ret` answered with `return x;` becomes `urn x;`
+  return trimmed.substring(typed.length);
+};
+
+// Re-bases continuation lines onto the cursor line's indentation when the model
+// indented them as if the code started at column 0
+export const fixIndentation: PostProcessStep = (text, context) => {
+  const lines = text.split('\n');
+  if (lines.length < 2) {
+    return text;
+  }
+
+  const baseIndent = getBaseIndent(context.prefix);
+  const cursorLine = context.prefix.substring(context.prefix.lastIndexOf('\n') + 1);
+  const indentUnit = cursorLine.substring(0, baseIndent).includes('\t') ? '\t' : ' ';
+  const indentOf = (line: string) => line.length - line.trimStart().length;
+
+  // Closing lines may legitimately dedent below the cursor line; anything else may not.
+  // The body of a block the first line opens belongs deeper than the cursor line.
+  const isCloser = (line: string) => closers.includes(line.trim()[0]);
+  const body = lines.slice(1).find(line => line.trim() !== '');
+  const opensBlock = /[{([:]$/.test(lines[0].trimEnd());
+  const misplaced = lines.slice(1).some(line => line.trim() !== '' && !isCloser(line) && indentOf(line) < baseIndent)
+    || (opensBlock && body !== undefined && !isCloser(body) && indentOf(body) <= baseIndent);
+  if (baseIndent === 0 || !misplaced) {
+    return text;
+  }
+
+  // The first line sits at the cursor; keep the others' indentation relative to it
+  const shift = baseIndent - indentOf(lines[0]);
+  return [
+    lines[0].trimStart(),
+    ...lines.slice(1).map(line => line.trim() === '' ? line : indentUnit.repeat(Math.max(0, indentOf(line) + shift)) + line.trimStart())
+  ].join('\n');
+};
+
+// Drops the end of the completion where it repeats the code after the cursor
+export const trimSuffixOverlap: PostProcessStep = (text, context) => {
+  if (!text || !context.suffix.trim()) {
+    return text;
+  }
+
+  const [lineRemainder, ...followingLines] = context.suffix.split('\n');
+  const nextLines = followingLines.map(line => line.trim()).filter(line => line.length > 0);
+  const completionLines = text.split('\n');
+
+  // How far the brackets would be off with this completion between the prefix and
+  // the suffix: openers the prefix leaves for the suffix to close, plus the completion's
+  const prefixOpen = scanBrackets(context.prefix, context.languageId).stack.length;
+  const suffixCloses = scanBrackets(context.suffix, context.languageId).unmatched.length;
+  const imbalance = (completion: string) => Math.abs(prefixOpen - suffixCloses + bracketBalance(completion));
+
+  // Drop trailing lines that duplicate the lines right after the cursor, unless
+  // they close brackets that would otherwise stay open, like an inner block's `}`
+  const fullImbalance = imbalance(text);
+  let overlap = Math.min(completionLines.length, nextLines.length);
+  while (overlap > 0) {
+    const tail = completionLines.slice(-overlap).map(line => line.trim());
+    const kept = completionLines.slice(0, completionLines.length - overlap).join('\n');
+    if (tail.every((line, i) => line === nextLines[i]) && imbalance(kept) <= fullImbalance) {
+      break;
+    }
+    overlap--;
+  }
+  let result = completionLines.slice(0, completionLines.length - overlap).join('\n').trimEnd();
+
+  // Drop the rest of the cursor line if the completion repeats it, unless that
+  // text is needed to close brackets
+  const rest = lineRemainder.trim();
+  if (rest && result.endsWith(rest)) {
+    const trimmed = result.slice(0, -rest.length).trimEnd();
+    if (imbalance(trimmed) <= imbalance(result)) {
+      result = trimmed;
+    }
+  }
+
+  return result;
+};
+
+// Cuts the completion at the first bracket that cannot be right: a mismatched
+// closer, or a closer for a bracket that the code after the cursor already closes
+export const balanceBrackets: PostProcessStep = (text, context) => {
+  const prefixStack = scanBrackets(context.prefix, context.languageId).stack;
+  const suffixCloses = scanBrackets(context.suffix, context.languageId).unmatched;
+  const available = prefixStack.slice(0, Math.max(0, prefixStack.length - suffixCloses.length));
+
+  const { cut } = scanBrackets(text, context.languageId, available);
+  return cut >= 0 ? text.substring(0, cut).trimEnd() : text;
+};
+
+export const trimWhitespace: PostProcessStep = text => text.trim();
+
+// Like trimWhitespace, but keeps the indentation of the first line
+export const trimBlankLines: PostProcessStep = text => text.replace(/^\s*\n/, '').trimEnd();
+
+// Models often drop the common indentation of a snippet; restore the original's
+export const matchOriginalIndentation: PostProcessStep = (text, context) => {
+  if (!context.original) {
+    return text;
+  }
+
+  const minIndent = (code: string) => {
+    const indents = code.split('\n').filter(line => line.trim()).map(line => line.match(/^\s*/)![0]);
+    return indents.reduce((shortest, indent) => indent.length < shortest.length ? indent : shortest, indents[0] ?? '');
+  };
+  const originalIndent = minIndent(context.original);
+  const indent = minIndent(text);
+  if (indent.length >= originalIndent.length) {
+    return text;
+  }
+
+  const missing = originalIndent.substring(indent.length);
+  return text.split('\n').map(line => line.trim() ? missing + line : line).join('\n');
+};
+
+// Offers only the first syntactically complete block of a longer completion
+export const truncateToCompleteBlock: PostProcessStep = (text, context) => {
+  // Treat the end of the text as the end of the last line
+  const end = findCompleteBlockEnd(text + '\n', getBaseIndent(context.prefix));
+  return end >= 0 ? text.substring(0, end) : text;
+};
+
+export const inlinePipeline: PostProcessStep[] = [
+  stripThinking,
+  extractCodeBlock,
+  stripPreamble,
+  stripTrailingProse,
+  stripPrefixEcho,
+  fixIndentation,
+  truncateToCompleteBlock,
+  trimSuffixOverlap,
+  balanceBrackets,
+  trimWhitespace
+];
+
+export const generationPipeline: PostProcessStep[] = [
+  stripThinking,
+  extractCodeBlock,
+  stripPreamble,
+  stripTrailingProse,
+  trimWhitespace
+];
+
+export const replacementPipeline: PostProcessStep[] = [
+  stripThinking,
+  extractCodeBlock,
+  stripPreamble,
+  stripTrailingProse,
+  trimBlankLines,
+  matchOriginalIndentation
+];
+
+// Whether streamed text already holds a complete block, so reading can stop
+export function isCompleteBlock(text: string, baseIndent: number): boolean {
+  // Reasoning models think first - wait for the answer
+  if (/<think>/i.test(text) && !/<\/think>/i.test(text)) {
+    return false;
+  }
+  return findCompleteBlockEnd(stripThinking(text, { languageId: '', prefix: '', suffix: '' }), baseIndent) >= 0;
+}
+
+// Returns the offset just past the first syntactically complete block of
+// whole lines: brackets balanced again, or an indented block dedented.
+// Returns -1 while the block is still open.
+export function findCompleteBlockEnd(code: string, baseIndent: number): number {
+  const lines = code.split('\n');
+  let offset = 0;
+  let depth = 0;
+  let firstIndent = -1;
+  let opensIndentedBlock = false;
+
+  // The last entry is a partial line that is still being streamed
+  for (let i = 0; i < lines.length - 1; i++) {
+    const line = lines[i];
+    const lineStart = offset;
+    offset += line.length + 1;
+    const trimmed = line.trim();
+
+    if (firstIndent < 0) {
+      // Skip fences and explanations before the code starts
+      if (!trimmed || trimmed.startsWith('```') || looksLikeProse(trimmed)) {
+        continue;
+      }
+      // The first line usually continues the cursor line, so it inherits its indentation
+      firstIndent = Math.max(baseIndent, line.length - line.trimStart().length);
+      opensIndentedBlock = trimmed.endsWith(':');
+    } else if (trimmed.endsWith(':') && depth <= 0 && !opensIndentedBlock && lines[i - 1].trim().startsWith('@')) {
+      // The declaration under a decorator opens the block
+      opensIndentedBlock = true;
+    } else if (trimmed.startsWith('```')) {
+      return lineStart;
+    } else if (!trimmed) {
+      continue;
+    } else if (opensIndentedBlock && depth <= 0 && line.length - line.trimStart().length <= firstIndent) {
+      return lineStart;
+    }
+
+    depth += bracketBalance(trimmed);
+    // Decorators and annotations belong to the declaration below them
+    if (depth <= 0 && !opensIndentedBlock && !trimmed.startsWith('@')) {
+      return offset - 1;
+    }
+  }
+
+  return -1;
+}
+
+function bracketBalance(code: string): number {
+  let balance = 0;
+  for (const char of code) {
+    if (openers.includes(char)) {
+      balance++;
+    }
+    if (closers.includes(char)) {
+      balance--;
+    }
+  }
+  return balance;
+}
+
+interface BracketScan {
+  // Openers still open at the end, innermost last
+  stack: string[];
+  // Closers that matched nothing in the text, in order
+  unmatched: string[];
+  // Offset of the first closer that matches neither the text nor `outer`, or -1.
+  // Only set when validating against `outer`.
+  cut: number;
+}
+
+// Scans brackets outside strings and comments. Closers that match nothing in the
+// text itself may close openers from `outer` (innermost last).
+function scanBrackets(text: string, languageId: string, outer?: string[]): BracketScan {
+  const syntax = getCommentSyntax(languageId);
+  const stack: string[] = [];
+  const unmatched: string[] = [];
+  const available = outer ? [...outer] : undefined;
+  let quote: string | null = null;
+  let blockEnd: string | null = null;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (blockEnd) {
+      if (text.startsWith(blockEnd, i)) {
+        i += blockEnd.length - 1;
+        blockEnd = null;
+      }
+      continue;
+    }
+    if (quote) {
+      if (char === '\\') {
+        i++;
+      } else if (char === quote || (char === '\n' && quote !== '`')) {
+        quote = null;
+      }
+      continue;
+    }
+
+    const block = syntax.block.find(([open]) => text.startsWith(open, i));
+    if (block) {
+      blockEnd = block[1];
+      i += block[0].length - 1;
+      continue;
+    }
+    if (syntax.line.some(open => text.startsWith(open, i))) {
+      const newline = text.indexOf('\n', i);
+      if (newline < 0) {
+        break;
+      }
+      i = newline;
+      continue;
+    }
+    if (char === '"' || char === "'" || char === '`') {
+      quote = char;
+      continue;
+    }
+
+    if (openers.includes(char)) {
+      stack.push(char);
+    } else if (closers.includes(char)) {
+      const expected = openers[closers.indexOf(char)];
+      if (stack.length > 0) {
+        if (available && stack[stack.length - 1] !== expected) {
+          return { stack, unmatched, cut: i };
+        }
+        stack.pop();
+      } else if (available) {
+        if (available.pop() !== expected) {
+          return { stack, unmatched, cut: i };
+        }
+      } else {
+        unmatched.push(char);
+      }
+    }
+  }
+
+  return { stack, unmatched, cut: -1 };
+}
@@ -0,0 +1,316 @@
+import * as vscode from 'vscode';
+import { logger } from './logger';
+
+export type PromptMode = 'completion' | 'generation' | 'edit' | 'chat' | 'commit';
+
+export interface ModeSettings {
+  systemPrompt: string;
+  maxTokens: number;
+  temperature: number;
+  timeout: number;
+}
+
+export interface PromptTemplate {
+  description?: string;
+  // May use {language}, {fileName} and {selection}
+  prompt: string;
+  // `chat` asks in the chat view; `edit` rewrites the selection with a diff preview
+  mode: 'chat' | 'edit';
+}
+
+interface LanguageOverrides {
+  instructions?: string;
+  modes?: Partial<Record<PromptMode, Partial<ModeSettings>>>;
+}
+
+// The contents of `.perpo.json` or `.perpo/config.json`
+export interface ProjectConfigFile {
+  // Team coding conventions, added to every system prompt
+  instructions?: string;
+  modes?: Partial<Record<PromptMode, Partial<ModeSettings>>>;
+  // Keyed by language ID
+  languages?: Record<string, LanguageOverrides>;
+  templates?: Record<string, PromptTemplate>;
+}
+
+const configFiles = ['.perpo.json', '.perpo/config.json'];
+const modes: PromptMode[] = ['completion', 'generation', 'edit', 'chat', 'commit'];
+
+// Allowed ranges of the numeric settings
+const limits: Record<'maxTokens' | 'temperature' | 'timeout', [number, number]> = {
+  maxTokens: [1, 32000],
+  temperature: [0, 2],
+  timeout: [1000, 300000]
+};
+
+// Replaces {name} with the variable of that name; unknown names are left alone
+export function fillTemplate(template: string, variables: Record<string, string>): string {
+  return template.replace(/\{(\w+)\}/g, (match, name: string) => variables[name] ?? match);
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// The request parameters in the user's `perpo.modes` setting; out-of-range values are ignored
+function userModeSettings(mode: PromptMode, document: vscode.TextDocument | undefined): Partial<ModeSettings> {
+  const configured = vscode.workspace.getConfiguration('perpo', document).get<Record<string, unknown>>('modes', {})[mode];
+  const settings: Partial<ModeSettings> = {};
+  if (!isObject(configured)) {
+    return settings;
+  }
+  for (const key of ['maxTokens', 'temperature', 'timeout'] as const) {
+    const value = configured[key];
+    const [min, max] = limits[key];
+    if (typeof value === 'number' && value >= min && value <= max) {
+      settings[key] = value;
+    }
+  }
+  return settings;
+}
+
+// Keeps every valid part of the file and describes each invalid one by its path
+export function validateProjectConfig(value: unknown): { config: ProjectConfigFile; errors: string[] } {
+  const errors: string[] = [];
+  const config: ProjectConfigFile = {};
+  if (!isObject(value)) {
+    return { config, errors: ['the file must contain a JSON object'] };
+  }
+
+  const checkString = (path: string, item: unknown): string | undefined => {
+    if (typeof item === 'string') {
+      return item;
+    }
+    errors.push(`${path} must be a string`);
+    return undefined;
+  };
+
+  const checkModes = (path: string, item: unknown): ProjectConfigFile['modes'] => {
+    if (!isObject(item)) {
+      errors.push(`${path} must be an object`);
+      return undefined;
+    }
+    const result: ProjectConfigFile['modes'] = {};
+    for (const [mode, settings] of Object.entries(item)) {
+      if (!modes.includes(mode as PromptMode)) {
+        errors.push(`${path}.${mode} is not a mode; use one of ${modes.join(', ')}`);
+        continue;
+      }
+      if (!isObject(settings)) {
+        errors.push(`${path}.${mode} must be an object`);
+        continue;
+      }
+
+      const checked: Partial<ModeSettings> = {};
+      for (const [key, setting] of Object.entries(settings)) {
+        const settingPath = `${path}.${mode}.${key}`;
+        if (key === 'systemPrompt') {
+          const prompt = checkString(settingPath, setting);
+          if (prompt !== undefined) {
+            checked.systemPrompt = prompt;
+          }
+        } else if (key === 'maxTokens' || key === 'temperature' || key === 'timeout') {
+          const [min, max] = limits[key];
+          const integer = key !== 'temperature';
+          if (typeof setting !== 'number' || setting < min || setting > max || (integer && !Number.isInteger(setting))) {
+            errors.push(`${settingPath} must be ${integer ? 'a whole number' : 'a number'} from ${min} to ${max}`);
+          } else {
+            checked[key] = setting;
+          }
+        } else {
+          errors.push(`${settingPath} is not a setting; use systemPrompt, maxTokens, temperature or timeout`);
+        }
+      }
+      result[mode as PromptMode] = checked;
+    }
+    return result;
+  };
+
+  for (const [key, item] of Object.entries(value)) {
+    switch (key) {
+      case '$schema':
+        break;
+      case 'instructions':
+        config.instructions = checkString(key, item);
+        break;
+      case 'modes':
+        config.modes = checkModes(key, item);
+        break;
+      case 'languages':
+        if (!isObject(item)) {
+          errors.push('languages must be an object keyed by language ID');
+          break;
+        }
+        config.languages = {};
+        for (const [languageId, overrides] of Object.entries(item)) {
+          const path = `languages.${languageId}`;
+          if (!isObject(overrides)) {
+            errors.push(`${path} must be an object`);
+            continue;
+          }
+          const checked: LanguageOverrides = {};
+          for (const [overrideKey, override] of Object.entries(overrides)) {
+            if (overrideKey === 'instructions') {
+              checked.instructions = checkString(`${path}.instructions`, override);
+            } else if (overrideKey === 'modes') {
+              checked.modes = checkModes(`${path}.modes`, override);
+            } else {
+              errors.push(`${path}.${overrideKey} is not a setting; use instructions or modes`);
+            }
+          }
+          config.languages[languageId] = checked;
+        }
+        break;
+      case 'templates':
+        if (!isObject(item)) {
+          errors.push('templates must be an object keyed by template name');
+          break;
+        }
+        config.templates = {};
+        for (const [name, template] of Object.entries(item)) {
+          const path = `templates.${name}`;
+          if (!isObject(template) || typeof template.prompt !== 'string') {
+            errors.push(`${path} must be an object with a prompt string`);
+            continue;
+          }
+          const mode = template.mode ?? 'chat';
+          if (mode !== 'chat' && mode !== 'edit') {
+            errors.push(`${path}.mode must be "chat" or "edit"`);
+            continue;
+          }
+          if (template.description !== undefined && typeof template.description !== 'string') {
+            errors.push(`${path}.description must be a string`);
+          }
+          config.templates[name] = {
+            prompt: template.prompt,
+            mode,
+            description: typeof template.description === 'string' ? template.description : undefined
+          };
+        }
+        break;
+      default:
+        errors.push(`${key} is not a setting; use instructions, modes, languages or templates`);
+    }
+  }
+
+  return { config, errors };
+}
+
+// Loads `.perpo.json` (or `.perpo/config.json`) from each workspace folder and
+// reloads it when it changes. Only trusted workspaces are read, since the file
+// can change what is sent to the model.
+export class ProjectConfig implements vscode.Disposable {
+  private readonly configs = new Map<string, ProjectConfigFile>();
+  private readonly changeEmitter = new vscode.EventEmitter<void>();
+  public readonly onDidChange = this.changeEmitter.event;
+  private readonly disposables: vscode.Disposable[] = [];
+
+  constructor() {
+    const watcher = vscode.workspace.createFileSystemWatcher('**/{.perpo.json,.perpo/config.json}');
+    const reloadFolder = (uri: vscode.Uri) => {
+      const folder = vscode.workspace.getWorkspaceFolder(uri);
+      if (folder) {
+        this.load(folder);
+      }
+    };
+
+    this.disposables.push(
+      watcher,
+      this.changeEmitter,
+      watcher.onDidCreate(reloadFolder),
+      watcher.onDidChange(reloadFolder),
+      watcher.onDidDelete(reloadFolder),
+      vscode.workspace.onDidChangeWorkspaceFolders(() => this.loadAll()),
+      vscode.workspace.onDidGrantWorkspaceTrust(() => this.loadAll())
+    );
+  }
+
+  public async loadAll() {
+    this.configs.clear();
+    await Promise.all((vscode.workspace.workspaceFolders ?? []).map(folder => this.load(folder)));
+  }
+
+  private async load(folder: vscode.WorkspaceFolder) {
+    const key = folder.uri.toString();
+    this.configs.delete(key);
+
+    if (!vscode.workspace.isTrusted) {
+      logger.debug(`Not reading project config in untrusted workspace folder ${folder.name}`);
+      this.changeEmitter.fire();
+      return;
+    }
+
+    for (const file of configFiles) {
+      const uri = vscode.Uri.joinPath(folder.uri, file);
+      let text: string;
+      try {
+        text = new TextDecoder().decode(await vscode.workspace.fs.readFile(uri));
+      } catch {
+        continue;
+      }
+
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(text);
+      } catch (error) {
+        this.reportErrors(uri, [`not valid JSON: ${error instanceof Error ? error.message : String(error)}`]);
+        break;
+      }
+
+      const { config, errors } = validateProjectConfig(parsed);
+      if (errors.length > 0) {
+        this.reportErrors(uri, errors);
+      }
+      this.configs.set(key, config);
+      logger.info(`Loaded project config from ${vscode.workspace.asRelativePath(uri)}`);
+      break;
+    }
+
+    this.changeEmitter.fire();
+  }
+
+  private reportErrors(uri: vscode.Uri, errors: string[]) {
+    const file = vscode.workspace.asRelativePath(uri);
+    errors.forEach(error => logger.warn(`${file}: ${error}`));
+    const summary = errors.length === 1 ? errors[0] : `${errors[0]} (and ${errors.length - 1} more problems; see the log)`;
+    vscode.window.showWarningMessage(`Perpo: Ignoring invalid settings in ${file}: ${summary}`, 'Open File').then(selection => {
+      if (selection === 'Open File') {
+        vscode.window.showTextDocument(uri);
+      }
+    });
+  }
+
+  private configFor(uri: vscode.Uri | undefined): ProjectConfigFile {
+    const folder = uri ? vscode.workspace.getWorkspaceFolder(uri) : vscode.workspace.workspaceFolders?.[0];
+    return (folder && this.configs.get(folder.uri.toString())) ?? {};
+  }
+
+  // Applies the user's `perpo.modes` setting, then the project's overrides for the
+  // mode and language, on top of `defaults`
+  public resolve(mode: PromptMode, document: vscode.TextDocument | undefined, defaults: ModeSettings): ModeSettings {
+    const config = this.configFor(document?.uri);
+    const language = document ? config.languages?.[document.languageId] : undefined;
+    const settings: ModeSettings = { ...defaults, ...userModeSettings(mode, document), ...config.modes?.[mode], ...language?.modes?.[mode] };
+
+    if (document) {
+      settings.systemPrompt = fillTemplate(settings.systemPrompt, {
+        language: document.languageId,
+        fileName: vscode.workspace.asRelativePath(document.uri)
+      });
+    }
+
+    const instructions = [config.instructions, language?.instructions].filter(text => text?.trim()).join('\n');
+    if (instructions) {
+      settings.systemPrompt += `\n\nFollow these project conventions:\n${instructions}`;
+    }
+    return settings;
+  }
+
+  public templates(uri: vscode.Uri | undefined): Record<string, PromptTemplate> {
+    return this.configFor(uri).templates ?? {};
+  }
+
+  public dispose() {
+    this.disposables.forEach(disposable => disposable.dispose());
+  }
+}
@@ -0,0 +1,142 @@
+import { ChatRequest, CompletionBackend, StreamListener, TokenUsage } from './backends';
+import { FixtureRequest, FixtureStore, fixtureKey } from './fixtures';
+import { logger } from './logger';
+
+function toFixtureRequest(model: string, request: ChatRequest): FixtureRequest {
+  return { model, messages: request.messages, maxTokens: request.maxTokens, temperature: request.temperature };
+}
+
+// Thrown when a request has no recording; the message names the fixture it looked for
+export class MissingFixtureError extends Error {
+  constructor(public readonly key: string, directory: string) {
+    super(`No recorded response for this request (expected ${key}.json in ${directory})`);
+    this.name = 'MissingFixtureError';
+  }
+}
+
+// Answers from recorded fixtures instead of a server, so completions can be
+// reproduced without network access or an API key
+export class ReplayBackend implements CompletionBackend {
+  public readonly name = 'Replay';
+  public readonly requiresApiKey = false;
+
+  constructor(private readonly store: FixtureStore, public readonly model: string) {}
+
+  public async complete(request: ChatRequest): Promise<string | null> {
+    const fixture = await this.load(request);
+    this.report(request, fixture.usage, fixture.citations);
+    return fixture.response;
+  }
+
+  // Replays the recorded chunks, so stopping early behaves as it did live
+  public async stream(request: ChatRequest, onText: StreamListener): Promise<string | null> {
+    const fixture = await this.load(request);
+    if (fixture.citations && fixture.citations.length > 0) {
+      request.onCitations?.(fixture.citations);
+    }
+
+    let text = '';
+    try {
+      for (const chunk of fixture.chunks ?? (fixture.response ? [fixture.response] : [])) {
+        text += chunk;
+        if (onText(text)) {
+          break;
+        }
+      }
+      return text.trim() || null;
+    } finally {
+      this.report(request, fixture.usage);
+    }
+  }
+
+  private async load(request: ChatRequest) {
+    const fixtureRequest = toFixtureRequest(this.model, request);
+    const fixture = await this.store.get(fixtureRequest);
+    if (!fixture) {
+      throw new MissingFixtureError(fixtureKey(fixtureRequest), this.store.directory);
+    }
+    logger.debug(`Replaying fixture ${fixture.key}`);
+    return fixture;
+  }
+
+  private report(request: ChatRequest, usage?: TokenUsage, citations?: string[]) {
+    if (usage) {
+      request.onUsage?.(usage);
+    }
+    if (citations && citations.length > 0) {
+      request.onCitations?.(citations);
+    }
+  }
+}
+
+// Passes requests through to another backend and saves each successful
+// request/response pair as a fixture, with the API key stripped
+export class RecordingBackend implements CompletionBackend {
+  public readonly name: string;
+  public readonly requiresApiKey: boolean;
+  public readonly model: string;
+
+  constructor(private readonly inner: CompletionBackend, private readonly store: FixtureStore, private readonly secrets: string[]) {
+    this.name = `${inner.name} (recording)`;
+    this.requiresApiKey = inner.requiresApiKey;
+    this.model = inner.model;
+  }
+
+  public async complete(request: ChatRequest): Promise<string | null> {
+    const capture = this.capture(request);
+    const response = await this.inner.complete(capture.request);
+    await this.save(request, response, undefined, capture);
+    return response;
+  }
+
+  public async stream(request: ChatRequest, onText: StreamListener): Promise<string | null> {
+    const capture = this.capture(request);
+    const chunks: string[] = [];
+    let seen = '';
+    const response = await this.inner.stream(capture.request, text => {
+      chunks.push(text.substring(seen.length));
+      seen = text;
+      return onText(text);
+    });
+    await this.save(request, response, chunks, capture);
+    return response;
+  }
+
+  // Reads usage and citations on the way past, still handing them to the caller
+  private capture(request: ChatRequest) {
+    const captured: { request: ChatRequest; usage?: TokenUsage; citations?: string[] } = {
+      request: {
+        ...request,
+        onUsage: usage => {
+          captured.usage = usage;
+          request.onUsage?.(usage);
+        },
+        onCitations: urls => {
+          captured.citations = urls;
+          request.onCitations?.(urls);
+        }
+      }
+    };
+    return captured;
+  }
+
+  private async save(
+    request: ChatRequest,
+    response: string | null,
+    chunks: string[] | undefined,
+    captured: { usage?: TokenUsage; citations?: string[] }
+  ) {
+    try {
+      const key = await this.store.save({
+        request: toFixtureRequest(this.model, request),
+        response,
+        chunks,
+        usage: captured.usage,
+        citations: captured.citations
+      }, this.secrets);
+      logger.debug(`Recorded fixture ${key}`);
+    } catch (error) {
+      logger.warn('Could not record fixture:', error);
+    }
+  }
+}
@@ -0,0 +1,76 @@
+import * as vscode from 'vscode';
+import { ChatMessage } from './backends';
+
+export interface AuditEntry {
+  time: Date;
+  backend: string;
+  model: string;
+  maxTokens: number;
+  temperature: number;
+  // As sent, after redaction
+  messages: ChatMessage[];
+  redactions: Record<string, number>;
+  // More than 1 when the request was retried
+  attempts: number;
+}
+
+// The last requests exactly as they were sent. Kept in memory only, since the
+// prompts contain code; nothing is written to disk.
+export class RequestAudit {
+  private entries: AuditEntry[] = [];
+  private size = 20;
+
+  public setSize(size: number) {
+    this.size = Math.max(0, size);
+    this.entries = this.entries.slice(-this.size);
+  }
+
+  public record(entry: AuditEntry) {
+    if (this.size === 0) {
+      return;
+    }
+    this.entries.push(entry);
+    if (this.entries.length > this.size) {
+      this.entries.shift();
+    }
+  }
+
+  // Opens the entries, newest first, in an untitled Markdown document
+  public async show() {
+    if (this.entries.length === 0) {
+      vscode.window.showInformationMessage('Perpo: No requests have been sent since VS Code started.');
+      return;
+    }
+
+    const sections = [...this.entries].reverse().map((entry, index) => {
+      const redactions = Object.entries(entry.redactions);
+      const summary = redactions.length > 0
+        ? redactions.map(([kind, count]) => `${count} ${kind}`).join(', ')
+        : 'none';
+      const messages = entry.messages.map(message => {
+        // A fence longer than any backtick run inside keeps the content intact
+        const longestRun = Math.max(2, ...(message.content.match(/`+/g) ?? []).map(run => run.length));
+        const fence = '`'.repeat(longestRun + 1);
+        return `**${message.role}**\n\n${fence}\n${message.content}\n${fence}`;
+      }).join('\n\n');
+
+      return `## ${index + 1}. ${entry.time.toLocaleString()}
+
+- Backend: ${entry.backend}, model \`${entry.model}\`
+- max_tokens ${entry.maxTokens}, temperature ${entry.temperature}
+- Redacted: ${summary}
+- Attempts: ${entry.attempts}
+
+${messages}`;
+    });
+
+    const content = `# Requests Sent by Perpo
+
+The last ${this.entries.length} request(s), newest first, exactly as they left this machine. Values replaced by \`PERPO_REDACTED_…\` placeholders never left it.
+
+${sections.join('\n\n---\n\n')}
+`;
+    const document = await vscode.workspace.openTextDocument({ language: 'markdown', content });
+    await vscode.window.showTextDocument(document, { preview: true });
+  }
+}
@@ -0,0 +1,186 @@
+import axios from 'axios';
+import { ChatRequest, CompletionBackend, StreamListener } from './backends';
+import { logger } from './logger';
+
+export type ErrorKind = 'cancelled' | 'auth' | 'quota' | 'rateLimit' | 'server' | 'network' | 'client';
+
+export interface ClassifiedError {
+  kind: ErrorKind;
+  status?: number;
+  retryAfterMs?: number;
+}
+
+export function classifyError(error: unknown): ClassifiedError {
+  if (axios.isCancel(error)) {
+    return { kind: 'cancelled' };
+  }
+  if (!axios.isAxiosError(error)) {
+    return { kind: 'client' };
+  }
+
+  const status = error.response?.status;
+  if (!status) {
+    // Timeouts, DNS failures, refused connections
+    return { kind: 'network' };
+  }
+
+  const retryAfterMs = parseRetryAfter(error.response?.headers?.['retry-after']);
+  if (status === 401 || status === 403) {
+    return { kind: 'auth', status };
+  }
+  if (status === 402 || (status === 429 && isQuotaError(error.response?.data))) {
+    return { kind: 'quota', status };
+  }
+  if (status === 429) {
+    return { kind: 'rateLimit', status, retryAfterMs };
+  }
+  if (status === 408 || status >= 500) {
+    return { kind: 'server', status, retryAfterMs };
+  }
+  return { kind: 'client', status };
+}
+
+function isQuotaError(data: unknown): boolean {
+  const error = (data as { error?: { type?: string; code?: string; message?: string } } | undefined)?.error;
+  const text = `${error?.type ?? ''} ${error?.code ?? ''} ${error?.message ?? ''}`.toLowerCase();
+  return text.includes('quota') || text.includes('insufficient');
+}
+
+// Retry-After is either a number of seconds or an HTTP date
+function parseRetryAfter(value: unknown): number | undefined {
+  if (typeof value !== 'string' || !value.trim()) {
+    return undefined;
+  }
+
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new axios.CanceledError());
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new axios.CanceledError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+// Wraps a backend with retries, backoff and a circuit breaker for inline requests
+export class ResilientBackend implements CompletionBackend {
+  private static readonly maxRetries = 2;
+  private static readonly baseDelay = 500;
+  private static readonly maxDelay = 20000; // never keep a request waiting longer than this
+  private static readonly failureThreshold = 3;
+  private static readonly cooldown = 30000;
+
+  private consecutiveFailures = 0;
+  private openUntil = 0;
+
+  constructor(private inner: CompletionBackend) {}
+
+  public get name(): string {
+    return this.inner.name;
+  }
+
+  public get requiresApiKey(): boolean {
+    return this.inner.requiresApiKey;
+  }
+
+  public get model(): string {
+    return this.inner.model;
+  }
+
+  // While open, automatic requests should not be sent at all; explicit triggers still are
+  public isCircuitOpen(): boolean {
+    return Date.now() < this.openUntil;
+  }
+
+  // A model with a fallback behind it is asked with no retries, so the fallback answers sooner
+  public complete(request: ChatRequest, maxRetries = ResilientBackend.maxRetries): Promise<string | null> {
+    return this.withRetry(request, maxRetries, () => this.inner.complete(request));
+  }
+
+  public stream(request: ChatRequest, onText: StreamListener, maxRetries = ResilientBackend.maxRetries): Promise<string | null> {
+    // Once text has reached the listener a retry would deliver it twice
+    let received = false;
+    return this.withRetry(
+      request,
+      maxRetries,
+      () => this.inner.stream(request, text => {
+        received = true;
+        return onText(text);
+      }),
+      () => !received
+    );
+  }
+
+  private async withRetry<T>(request: ChatRequest, maxRetries: number, send: () => Promise<T>, canRetry = () => true): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const result = await send();
+        this.consecutiveFailures = 0;
+        return result;
+      } catch (error) {
+        const failure = classifyError(error);
+        if (failure.kind === 'cancelled') {
+          throw error;
+        }
+
+        const retryable = failure.kind === 'server' || failure.kind === 'network' || failure.kind === 'rateLimit';
+        const delay = failure.retryAfterMs ?? this.backoffDelay(attempt);
+        if (!retryable || attempt >= maxRetries || delay > ResilientBackend.maxDelay || !canRetry()) {
+          this.recordFailure(failure);
+          throw error;
+        }
+
+        logger.warn(`Request failed (${failure.kind}${failure.status ? ` ${failure.status}` : ''}), retrying in ${Math.round(delay)}ms`);
+        await sleep(delay, request.signal);
+      }
+    }
+  }
+
+  // Exponential backoff with full jitter
+  private backoffDelay(attempt: number): number {
+    return Math.random() * ResilientBackend.baseDelay * 2 ** attempt;
+  }
+
+  private recordFailure(failure: ClassifiedError) {
+    const now = Date.now();
+
+    // No point retrying with a rejected key or an empty quota until the configuration changes
+    if (failure.kind === 'auth' || failure.kind === 'quota') {
+      this.openUntil = Infinity;
+      logger.warn(`Pausing automatic requests: ${failure.kind} error`);
+      return;
+    }
+    if (failure.kind === 'client') {
+      return;
+    }
+
+    this.consecutiveFailures++;
+    if (failure.retryAfterMs) {
+      this.openUntil = Math.max(this.openUntil, now + failure.retryAfterMs);
+    }
+    if (this.consecutiveFailures >= ResilientBackend.failureThreshold) {
+      this.openUntil = Math.max(this.openUntil, now + ResilientBackend.cooldown);
+    }
+    if (this.openUntil > now) {
+      logger.warn(`Pausing automatic requests for ${Math.round((this.openUntil - now) / 1000)}s after ${this.consecutiveFailures} failure(s)`);
+    }
+  }
+}
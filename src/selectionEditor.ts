@@ -0,0 +1,401 @@
+import * as vscode from 'vscode';
+import axios from 'axios';
+import { ChatRequest } from './backends';
+import { BackendSource } from './chatView';
+import { extractContext, getImportLines, truncateEnd, truncateStart } from './contextExtractor';
+import { DiffPreview } from './diffPreview';
+import { completionSelector, isExcludedFile } from './enablement';
+import { PostProcessStep, generationPipeline, replacementPipeline, runPipeline } from './postProcessing';
+import { UsageTracker } from './usageTracker';
+import { ModeSettings, ProjectConfig } from './projectConfig';
+import { logger } from './logger';
+
+interface EditTarget {
+  document: vscode.TextDocument;
+  // Whole lines, so the model sees and returns complete statements
+  range: vscode.Range;
+  // Last line of the code, which `range` ends after
+  lastLine: number;
+  code: string;
+}
+
+const editDefaults: ModeSettings = {
+  systemPrompt: 'You are a skilled {language} programmer. You change code exactly as asked. Return ONLY code - no explanations, no comments about what you changed, no markdown formatting.',
+  maxTokens: 2048,
+  temperature: 0.2,
+  timeout: 60000
+};
+
+const surroundingLines = 30;
+const maxCodeChars = 24000;
+const maxRelatedLocations = 5;
+
+// What "doc comments" means in each language
+const docCommentStyles: Record<string, string> = {
+  javascript: 'JSDoc',
+  javascriptreact: 'JSDoc',
+  typescript: 'TSDoc',
+  typescriptreact: 'TSDoc',
+  python: 'docstring (PEP 257)',
+  java: 'Javadoc',
+  kotlin: 'KDoc',
+  csharp: 'XML documentation (`///`)',
+  rust: 'rustdoc (`///`)',
+  go: 'Go doc',
+  php: 'PHPDoc',
+  ruby: 'YARD',
+  c: 'Doxygen',
+  cpp: 'Doxygen',
+  swift: 'Swift Markup (`///`)',
+  dart: 'Dart doc (`///`)'
+};
+
+// Commands that rewrite the selected code. Every change is shown as a diff and
+// only applied once the user accepts it.
+export class SelectionEditor {
+  constructor(
+    private readonly backendSource: BackendSource,
+    private readonly usage: UsageTracker,
+    private readonly projectConfig: ProjectConfig,
+    private readonly preview: DiffPreview
+  ) {}
+
+  // Rewrites the selection following a free-form instruction, e.g. from a prompt template
+  public async runInstruction(instruction: string, title: string) {
+    const target = this.getTarget();
+    if (target) {
+      await this.proposeEdit(target, instruction, title);
+    }
+  }
+
+  public async refactor() {
+    const target = this.getTarget();
+    if (!target) {
+      return;
+    }
+
+    const instruction = await vscode.window.showInputBox({
+      title: 'Perpo: Refactor',
+      prompt: 'How should the selected code change?',
+      placeHolder: 'e.g. use async/await instead of callbacks'
+    });
+    if (!instruction?.trim()) {
+      return;
+    }
+
+    await this.proposeEdit(target, `Rewrite the code to change as instructed: ${instruction.trim()}`, 'Refactor');
+  }
+
+  public async addDocComments() {
+    const target = this.getTarget();
+    if (!target) {
+      return;
+    }
+
+    const style = docCommentStyles[target.document.languageId] ?? 'the language\'s idiomatic doc comment';
+    await this.proposeEdit(
+      target,
+      `Add ${style} comments to every function, method, class and other declaration in the code to change. Describe parameters and return values where the language's conventions do. Do not change the code itself.`,
+      'Add Doc Comments'
+    );
+  }
+
+  // Seeded from the diagnostic under the cursor; code actions pass the diagnostic in
+  public async fixError(uri?: vscode.Uri, diagnostic?: vscode.Diagnostic) {
+    const editor = vscode.window.activeTextEditor;
+    const document = this.findDocument(uri);
+    if (!document || !this.checkDocument(document)) {
+      return;
+    }
+
+    let range: vscode.Range;
+    if (diagnostic) {
+      range = diagnostic.range;
+    } else if (editor) {
+      diagnostic = this.findDiagnostic(document, editor.selection);
+      if (!diagnostic) {
+        vscode.window.showInformationMessage('Perpo: There is no problem at the cursor to fix.');
+        return;
+      }
+      range = editor.selection.isEmpty ? diagnostic.range : editor.selection.union(diagnostic.range);
+    } else {
+      return;
+    }
+
+    // A couple of lines either side give the model room to fix the cause
+    const target = this.toTarget(document, this.expandLines(document, range.start.line, range.end.line));
+    const severity = diagnostic.severity === vscode.DiagnosticSeverity.Error ? 'error' : 'problem';
+    const source = diagnostic.source ? ` reported by ${diagnostic.source}` : '';
+    const details = await this.describeProblem(document, diagnostic);
+
+    await this.proposeEdit(
+      target,
+      `Fix this ${severity}${source} on line ${diagnostic.range.start.line + 1}: ${diagnostic.message}${details}\nChange as little as possible.`,
+      'Fix Error'
+    );
+  }
+
+  // Sends the file's errors and warnings in one request, covering the lines between
+  // the first and last of them, rather than one request per problem
+  public async fixAllErrors(uri?: vscode.Uri) {
+    const document = this.findDocument(uri);
+    if (!document || !this.checkDocument(document)) {
+      return;
+    }
+
+    const problems = vscode.languages.getDiagnostics(document.uri)
+      .filter(diagnostic => diagnostic.severity <= vscode.DiagnosticSeverity.Warning)
+      .sort((a, b) => a.range.start.compareTo(b.range.start));
+    if (problems.length === 0) {
+      vscode.window.showInformationMessage('Perpo: There are no errors or warnings in this file.');
+      return;
+    }
+
+    // Take problems from the top while the code around them still fits one request
+    const batch = [problems[0]];
+    let endLine = problems[0].range.end.line;
+    for (const problem of problems.slice(1)) {
+      const lastLine = Math.max(endLine, problem.range.end.line);
+      if (document.getText(this.expandLines(document, problems[0].range.start.line, lastLine)).length > maxCodeChars) {
+        break;
+      }
+      batch.push(problem);
+      endLine = lastLine;
+    }
+
+    const target = this.toTarget(document, this.expandLines(document, problems[0].range.start.line, endLine));
+    const descriptions = await Promise.all(batch.map(async problem => {
+      const severity = problem.severity === vscode.DiagnosticSeverity.Error ? 'error' : 'warning';
+      const source = problem.source ? ` (${problem.source})` : '';
+      return `- Line ${problem.range.start.line + 1}, ${severity}${source}: ${problem.message}${await this.describeProblem(document, problem)}`;
+    }));
+    if (batch.length < problems.length) {
+      vscode.window.showInformationMessage(`Perpo: Fixing the first ${batch.length} of ${problems.length} problems. Run the command again for the rest.`);
+    }
+
+    await this.proposeEdit(
+      target,
+      `Fix these problems:\n${descriptions.join('\n')}\nChange as little as possible, and leave code without problems as it is.`,
+      'Fix All Problems'
+    );
+  }
+  // Tests go into a new editor rather than the source file
+  public async generateTests() {
+    const target = this.getTarget();
+    if (!target) {
+      return;
+    }
+
+    const { document } = target;
+    const imports = getImportLines(document).map(line => document.lineAt(line).text).join('\n');
+    const response = await this.request(
+      target,
+      `Write unit tests for the code to change, using the test framework this project most likely uses. Cover normal cases, edge cases and errors. Return a complete test file, including imports of the code under test from ${vscode.workspace.asRelativePath(document.uri)}.${imports ? `\n\nThe file imports:\n\`\`\`${document.languageId}\n${imports}\n\`\`\`` : ''}`,
+      'Generate Tests',
+      generationPipeline
+    );
+    if (!response) {
+      return;
+    }
+
+    const tests = await vscode.workspace.openTextDocument({ language: document.languageId, content: `${response}\n` });
+    await vscode.window.showTextDocument(tests, vscode.ViewColumn.Beside);
+  }
+
+  private async proposeEdit(target: EditTarget, instruction: string, title: string) {
+    const replacement = await this.request(
+      target,
+      `${instruction}\n\nReturn only the replacement for the code to change, with the same indentation.`,
+      title,
+      replacementPipeline
+    );
+    if (replacement === null) {
+      return;
+    }
+
+    // The target covers whole lines; keep the line break that ended it
+    const ending = target.code.endsWith('\n') ? '\n' : '';
+    if (replacement + ending === target.code) {
+      vscode.window.showInformationMessage(`Perpo: ${title} suggested no changes.`);
+      return;
+    }
+    if (await this.preview.propose(target.document, target.range, replacement + ending, title)) {
+      logger.info(`${title}: applied to ${target.document.fileName}`);
+    }
+  }
+
+  private async request(
+    target: EditTarget,
+    instruction: string,
+    title: string,
+    pipeline: PostProcessStep[]
+  ): Promise<string | null> {
+    const backend = this.backendSource('edit');
+    if (!backend) {
+      vscode.window.showWarningMessage('Perpo: Set an API key first.', 'Set API Key').then(selection => {
+        if (selection === 'Set API Key') {
+          vscode.commands.executeCommand('perpo.setApiKey');
+        }
+      });
+      return null;
+    }
+
+    const { document, range, lastLine, code } = target;
+    const language = document.languageId;
+    const before = document.getText(new vscode.Range(Math.max(0, range.start.line - surroundingLines), 0, range.start.line, 0));
+    const after = document.getText(new vscode.Range(range.end, document.lineAt(Math.min(document.lineCount - 1, range.end.line + surroundingLines)).range.end));
+    const surroundings = `${truncateStart(before, maxCodeChars / 4)}<CODE TO CHANGE>\n${truncateEnd(after, maxCodeChars / 4)}`;
+
+    const settings = this.projectConfig.resolve('edit', document, editDefaults);
+    const request: ChatRequest = {
+      messages: [
+        {
+          role: 'system',
+          content: settings.systemPrompt
+        },
+        {
+          role: 'user',
+          content: `File: ${vscode.workspace.asRelativePath(document.uri)}
+
+Surrounding code:
+\`\`\`${language}
+${surroundings}
+\`\`\`
+
+Code to change (lines ${range.start.line + 1}-${lastLine + 1}):
+\`\`\`${language}
+${code}
+\`\`\`
+
+${instruction}`
+        }
+      ],
+      maxTokens: settings.maxTokens,
+      temperature: settings.temperature,
+      timeout: settings.timeout
+    };
+
+    logger.info(`${title}: requesting from ${backend.name} model ${backend.model}`);
+    logger.content(`${title} request`, JSON.stringify(request.messages, null, 2));
+
+    return vscode.window.withProgress(
+      { location: vscode.ProgressLocation.Notification, title: `Perpo: ${title}…`, cancellable: true },
+      async (_, token) => {
+        const controller = new AbortController();
+        const cancellation = token.onCancellationRequested(() => controller.abort());
+        request.signal = controller.signal;
+        const tracked = this.usage.track(request, backend.model, language);
+
+        try {
+          const response = await backend.complete(request);
+          tracked.finish(response);
+          logger.content(`${title} response`, response ?? '');
+
+          const cleaned = response
+            ? runPipeline(response, { languageId: language, prefix: before, suffix: after, original: code }, pipeline)
+            : '';
+          if (!cleaned.trim()) {
+            vscode.window.showWarningMessage(`Perpo: ${title} returned no code.`);
+            return null;
+          }
+          return cleaned;
+        } catch (error) {
+          if (!axios.isCancel(error)) {
+            logger.error(`${title} failed:`, error);
+            const message = axios.isAxiosError(error) ? error.response?.data?.error?.message ?? error.message : String(error);
+            vscode.window.showErrorMessage(`Perpo: ${title} failed: ${message}`);
+            tracked.fail(axios.isAxiosError(error) ? error.response?.status : undefined);
+          }
+          return null;
+        } finally {
+          cancellation.dispose();
+        }
+      }
+    );
+  }
+
+  private getTarget(): EditTarget | undefined {
+    const editor = vscode.window.activeTextEditor;
+    if (!editor || !this.checkDocument(editor.document)) {
+      return undefined;
+    }
+    if (editor.selection.isEmpty) {
+      vscode.window.showInformationMessage('Perpo: Select the code first.');
+      return undefined;
+    }
+
+    const target = this.toTarget(editor.document, editor.selection);
+    if (target.code.length > maxCodeChars) {
+      vscode.window.showInformationMessage('Perpo: The selection is too large. Select a single function or class.');
+      return undefined;
+    }
+    return target;
+  }
+
+  private toTarget(document: vscode.TextDocument, selection: vscode.Range): EditTarget {
+    // A selection ending at the start of a line doesn't include that line
+    const endLine = selection.end.character === 0 && selection.end.line > selection.start.line
+      ? selection.end.line - 1
+      : selection.end.line;
+    const range = new vscode.Range(
+      selection.start.line,
+      0,
+      endLine + 1 < document.lineCount ? endLine + 1 : endLine,
+      endLine + 1 < document.lineCount ? 0 : document.lineAt(endLine).text.length
+    );
+    return { document, range, lastLine: endLine, code: document.getText(range) };
+  }
+
+  private findDocument(uri: vscode.Uri | undefined): vscode.TextDocument | undefined {
+    return uri
+      ? vscode.workspace.textDocuments.find(candidate => candidate.uri.toString() === uri.toString())
+      : vscode.window.activeTextEditor?.document;
+  }
+
+  // Whole lines from `startLine` to `endLine`, plus two either side
+  private expandLines(document: vscode.TextDocument, startLine: number, endLine: number): vscode.Range {
+    const start = Math.max(0, startLine - 2);
+    const end = Math.min(document.lineCount - 1, endLine + 2);
+    return new vscode.Range(start, 0, end, document.lineAt(end).text.length);
+  }
+
+  // The signature around the problem and the locations the diagnostic points to,
+  // such as the declaration a type error refers to
+  private async describeProblem(document: vscode.TextDocument, diagnostic: vscode.Diagnostic): Promise<string> {
+    const parts: string[] = [];
+    const { enclosingSignature } = await extractContext(document, diagnostic.range.start, 0);
+    if (enclosingSignature) {
+      parts.push(`It is inside \`${enclosingSignature}\`.`);
+    }
+
+    for (const related of (diagnostic.relatedInformation ?? []).slice(0, maxRelatedLocations)) {
+      const { uri, range } = related.location;
+      let code = '';
+      try {
+        const relatedDocument = await vscode.workspace.openTextDocument(uri);
+        if (!isExcludedFile(relatedDocument)) {
+          code = `: \`${relatedDocument.lineAt(range.start.line).text.trim()}\``;
+        }
+      } catch (error) {
+        logger.debug(`Could not read ${uri.toString()} for related information:`, error);
+      }
+      parts.push(`Related, ${vscode.workspace.asRelativePath(uri)} line ${range.start.line + 1}: ${related.message}${code}`);
+    }
+
+    return parts.length > 0 ? `\n  ${parts.join('\n  ')}` : '';
+  }
+
+  private checkDocument(document: vscode.TextDocument): boolean {
+    if (vscode.languages.match(completionSelector, document) === 0 || isExcludedFile(document)) {
+      vscode.window.showWarningMessage('Perpo: This file is excluded from being sent to the backend.');
+      return false;
+    }
+    return true;
+  }
+
+  private findDiagnostic(document: vscode.TextDocument, selection: vscode.Selection): vscode.Diagnostic | undefined {
+    return vscode.languages.getDiagnostics(document.uri)
+      .filter(diagnostic => diagnostic.range.contains(selection.active) || (!selection.isEmpty && selection.intersection(diagnostic.range)))
+      .sort((a, b) => a.severity - b.severity)[0];
+  }
+}
@@ -0,0 +1,147 @@
+import * as vscode from 'vscode';
+import { getDisabledReason, isLanguageEnabled, setLanguageEnabled } from './enablement';
+
+export interface CompletionError {
+  message: string;
+  status?: number;
+}
+
+export interface CompletionState {
+  enabled: boolean;
+  missingApiKey: boolean;
+  loading: boolean;
+  // The daily token budget is used up and automatic completions are paused
+  overBudget: boolean;
+  error?: CompletionError;
+}
+
+interface MenuItem extends vscode.QuickPickItem {
+  run: () => unknown;
+}
+
+const knownModels = ['sonar', 'sonar-pro', 'sonar-reasoning'];
+
+export class PerpoStatusBar implements vscode.Disposable {
+  private readonly item: vscode.StatusBarItem;
+  private readonly disposables: vscode.Disposable[] = [];
+
+  constructor(private state: CompletionState, onDidChangeState: vscode.Event<CompletionState>) {
+    this.item = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Right, 100);
+    this.item.command = 'perpo.showMenu';
+
+    this.disposables.push(
+      this.item,
+      onDidChangeState(state => {
+        this.state = state;
+        this.render();
+      }),
+      vscode.window.onDidChangeActiveTextEditor(() => this.render()),
+      vscode.workspace.onDidChangeConfiguration(event => {
+        if (event.affectsConfiguration('perpo.enable') || event.affectsConfiguration('perpo.exclude')) {
+          this.render();
+        }
+      })
+    );
+
+    this.render();
+    this.item.show();
+  }
+
+  private render() {
+    const document = vscode.window.activeTextEditor?.document;
+    const disabledReason = document && getDisabledReason(document);
+    const { enabled, missingApiKey, loading, overBudget, error } = this.state;
+
+    this.item.backgroundColor = undefined;
+    if (!enabled) {
+      this.item.text = '$(circle-slash) Perpo';
+      this.item.tooltip = 'Perpo is disabled';
+    } else if (missingApiKey) {
+      this.item.text = '$(key) Perpo';
+      this.item.tooltip = 'Perpo: no API key is set';
+      this.item.backgroundColor = new vscode.ThemeColor('statusBarItem.warningBackground');
+    } else if (disabledReason) {
+      this.item.text = '$(circle-slash) Perpo';
+      this.item.tooltip = `Perpo: ${disabledReason}`;
+    } else if (loading) {
+      this.item.text = '$(loading~spin) Perpo';
+      this.item.tooltip = 'Perpo: waiting for a completion…';
+    } else if (overBudget) {
+      this.item.text = '$(dashboard) Perpo';
+      this.item.tooltip = 'Perpo: daily token budget used up; automatic completions are paused';
+      this.item.backgroundColor = new vscode.ThemeColor('statusBarItem.warningBackground');
+    } else if (error) {
+      this.item.text = '$(error) Perpo';
+      this.item.tooltip = `Perpo: ${this.describeError(error)}`;
+      this.item.backgroundColor = new vscode.ThemeColor('statusBarItem.errorBackground');
+    } else {
+      this.item.text = '$(check) Perpo';
+      this.item.tooltip = 'Perpo is ready';
+    }
+  }
+
+  private describeError(error: CompletionError): string {
+    switch (error.status) {
+      case 401:
+        return 'the API key was rejected (401)';
+      case 429:
+        return 'rate limited by the API (429)';
+      default:
+        return error.status ? `${error.message} (${error.status})` : error.message;
+    }
+  }
+
+  public async showMenu() {
+    const languageId = vscode.window.activeTextEditor?.document.languageId;
+    const items: MenuItem[] = [];
+
+    items.push(this.state.enabled
+      ? { label: '$(circle-slash) Disable Perpo', run: () => vscode.commands.executeCommand('perpo.disable') }
+      : { label: '$(check) Enable Perpo', run: () => vscode.commands.executeCommand('perpo.enable') });
+
+    if (languageId) {
+      const languageEnabled = isLanguageEnabled(languageId);
+      items.push({
+        label: languageEnabled ? `$(circle-slash) Disable for ${languageId}` : `$(check) Enable for ${languageId}`,
+        run: () => setLanguageEnabled(languageId, !languageEnabled)
+      });
+    }
+
+    const model = vscode.workspace.getConfiguration('perpo').get('model', 'sonar');
+    items.push(
+      { label: '$(symbol-misc) Switch Model…', description: model, run: () => this.pickModel() },
+      { label: '$(key) Set API Key…', run: () => vscode.commands.executeCommand('perpo.setApiKey') },
+      { label: '$(graph) Show Usage', run: () => vscode.commands.executeCommand('perpo.showUsage') },
+      { label: '$(output) Open Log', run: () => vscode.commands.executeCommand('perpo.showLogs') }
+    );
+
+    const selection = await vscode.window.showQuickPick(items, { title: 'Perpo' });
+    await selection?.run();
+  }
+
+  private async pickModel() {
+    const config = vscode.workspace.getConfiguration('perpo');
+    const current = config.get('model', 'sonar');
+    const otherLabel = 'Other…';
+
+    const models = knownModels.includes(current) ? knownModels : [current, ...knownModels];
+    const picked = await vscode.window.showQuickPick(
+      [...models.map(model => ({ label: model, description: model === current ? 'current' : undefined })), { label: otherLabel }],
+      { title: 'Perpo: Switch Model' }
+    );
+    if (!picked) {
+      return;
+    }
+
+    const model = picked.label === otherLabel
+      ? await vscode.window.showInputBox({ title: 'Perpo: Model Name', value: current })
+      : picked.label;
+    if (model) {
+      await config.update('model', model, vscode.ConfigurationTarget.Global);
+    }
+  }
+
+  public dispose() {
+    this.disposables.forEach(disposable => disposable.dispose());
+  }
+}
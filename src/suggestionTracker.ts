@@ -0,0 +1,193 @@
+import * as vscode from 'vscode';
+import { UsageTracker } from './usageTracker';
+import { logger } from './logger';
+
+// Where on the line a suggestion was asked for; acceptance differs a lot between these
+export type LinePosition = 'lineStart' | 'midIdentifier' | 'endOfLine' | 'midLine' | 'prompt';
+
+export interface SuggestionOutcomes {
+  shown: number;
+  accepted: number;
+  // Part of the suggestion typed out or accepted word by word, but not all of it
+  partial: number;
+}
+
+// How automatic suggestions behave in a context, based on its acceptance rate
+export interface TriggerPolicy {
+  debounceFactor: number;
+  suppress: boolean;
+}
+
+interface Suggestion {
+  id: number;
+  model: string;
+  languageId: string;
+  bucket: string;
+  uri: string;
+  offset: number;
+  // Text after the position it was shown at, which must not change for it to continue
+  after: string;
+  texts: string[];
+  partial: boolean;
+}
+
+const storageKey = 'perpo.suggestionStats';
+const anchorLength = 200;
+
+// Older outcomes count for less, so a context can recover once suggestions improve
+const decay = 0.97;
+const minSamples = 15;
+const slowRate = 0.15;
+const suppressRate = 0.05;
+// Even suppressed contexts get an occasional suggestion, to notice when that changes
+const probeInterval = 10;
+
+const neutralPolicy: TriggerPolicy = { debounceFactor: 1, suppress: false };
+
+export function classifyPosition(document: vscode.TextDocument, position: vscode.Position): LinePosition {
+  const line = document.lineAt(position.line).text;
+  const before = line.substring(0, position.character);
+  if (!before.trim()) {
+    return 'lineStart';
+  }
+  if (/\w$/.test(before)) {
+    return 'midIdentifier';
+  }
+  return line.substring(position.character).trim() ? 'midLine' : 'endOfLine';
+}
+
+export function acceptanceRate(outcomes: SuggestionOutcomes): number {
+  return outcomes.shown > 0 ? (outcomes.accepted + outcomes.partial / 2) / outcomes.shown : 0;
+}
+
+// Follows each suggestion from being shown to being accepted, partly accepted or
+// ignored, and keeps decaying acceptance statistics per language and line position
+export class SuggestionTracker implements vscode.Disposable {
+  private stats: Record<string, SuggestionOutcomes>;
+  private current: Suggestion | undefined;
+  private nextId = 1;
+  private readonly probes = new Map<string, number>();
+
+  constructor(private readonly storage: vscode.Memento, private readonly usage: UsageTracker) {
+    this.stats = storage.get<Record<string, SuggestionOutcomes>>(storageKey, {});
+  }
+
+  public get statistics(): Record<string, SuggestionOutcomes> {
+    return this.stats;
+  }
+
+  // Records suggestions handed to VS Code and returns the ID their accept command carries.
+  // The previous suggestion is over at this point; if nothing was accepted it was ignored.
+  public show(
+    document: vscode.TextDocument,
+    position: vscode.Position,
+    texts: string[],
+    model: string,
+    linePosition: LinePosition
+  ): number {
+    this.finish(false);
+    this.current = {
+      id: this.nextId++,
+      model,
+      languageId: document.languageId,
+      bucket: `${document.languageId}:${linePosition}`,
+      uri: document.uri.toString(),
+      offset: document.offsetAt(position),
+      after: this.textAfter(document, position),
+      texts,
+      partial: false
+    };
+    this.usage.recordShown(model, document.languageId, texts.length);
+    return this.current.id;
+  }
+
+  // If the user has typed or word-accepted the start of the current suggestion,
+  // returns the rest of it so it can be offered again without a request
+  public continuation(document: vscode.TextDocument, position: vscode.Position): { id: number; text: string } | undefined {
+    const suggestion = this.current;
+    if (!suggestion || suggestion.uri !== document.uri.toString()) {
+      return undefined;
+    }
+
+    const offset = document.offsetAt(position);
+    if (offset <= suggestion.offset || this.textAfter(document, position) !== suggestion.after) {
+      return undefined;
+    }
+
+    const typed = document.getText(new vscode.Range(document.positionAt(suggestion.offset), position));
+    const text = suggestion.texts.find(candidate => candidate.length > typed.length && candidate.startsWith(typed));
+    if (!text) {
+      return undefined;
+    }
+
+    suggestion.partial = true;
+    return { id: suggestion.id, text: text.substring(typed.length) };
+  }
+
+  // Run through the suggestion's command, so only whole acceptances arrive here
+  public accept(id: number) {
+    if (this.current?.id !== id) {
+      return;
+    }
+    this.usage.recordAccepted(this.current.model, this.current.languageId);
+    this.finish(true);
+  }
+
+  public policy(languageId: string, linePosition: LinePosition): TriggerPolicy {
+    const bucket = `${languageId}:${linePosition}`;
+    const outcomes = this.stats[bucket];
+    if (!outcomes || outcomes.shown < minSamples) {
+      return neutralPolicy;
+    }
+
+    const rate = acceptanceRate(outcomes);
+    if (rate < suppressRate) {
+      const skipped = (this.probes.get(bucket) ?? 0) + 1;
+      this.probes.set(bucket, skipped % probeInterval);
+      return { debounceFactor: 2, suppress: skipped < probeInterval };
+    }
+    return rate < slowRate ? { debounceFactor: 2, suppress: false } : neutralPolicy;
+  }
+
+  public async clear() {
+    this.current = undefined;
+    this.stats = {};
+    this.probes.clear();
+    await this.storage.update(storageKey, this.stats);
+  }
+
+  private finish(accepted: boolean) {
+    const suggestion = this.current;
+    if (!suggestion) {
+      return;
+    }
+    this.current = undefined;
+    if (!accepted && suggestion.partial) {
+      this.usage.recordPartial(suggestion.model, suggestion.languageId);
+    }
+
+    // Prompt generation is asked for explicitly and never throttled, so it stays out of the statistics
+    if (suggestion.bucket.endsWith(':prompt')) {
+      return;
+    }
+
+    // Alternatives the user cycles through count as one suggestion
+    const outcomes = this.stats[suggestion.bucket] ?? { shown: 0, accepted: 0, partial: 0 };
+    outcomes.shown = outcomes.shown * decay + 1;
+    outcomes.accepted = outcomes.accepted * decay + (accepted ? 1 : 0);
+    outcomes.partial = outcomes.partial * decay + (!accepted && suggestion.partial ? 1 : 0);
+    this.stats[suggestion.bucket] = outcomes;
+    logger.trace(`Suggestion ${suggestion.id} in ${suggestion.bucket}: ${accepted ? 'accepted' : suggestion.partial ? 'partly accepted' : 'ignored'}`);
+
+    this.storage.update(storageKey, this.stats).then(undefined, () => undefined);
+  }
+
+  private textAfter(document: vscode.TextDocument, position: vscode.Position): string {
+    const end = document.positionAt(document.offsetAt(position) + anchorLength);
+    return document.getText(new vscode.Range(position, end));
+  }
+
+  public dispose() {
+    this.finish(false);
+  }
+}
@@ -0,0 +1,205 @@
+import * as assert from 'assert';
+import {
+  PostProcessContext,
+  findCompleteBlockEnd,
+  generationPipeline,
+  inlinePipeline,
+  isCompleteBlock,
+  replacementPipeline,
+  runPipeline
+} from '../postProcessing';
+
+function context(languageId: string, prefix: string, suffix = '', original?: string): PostProcessContext {
+  return { languageId, prefix, suffix, original };
+}
+
+// Responses below are what models actually sent back, trimmed to the interesting part
+suite('inlinePipeline', () => {
+  test('keeps a closing brace followed by more code', () => {
+    const prefix = 'function total(items) {\n  let sum = 0;\n  for (const item of items) {\n    sum += item.price;\n  ';
+    const result = runPipeline('}\n  return sum;', context('javascript', prefix, '\n}'), inlinePipeline);
+    assert.strictEqual(result, '}');
+  });
+
+  test('keeps a Python def with its body', () => {
+    const prefix = 'class Cart:\n    ';
+    const response = 'def total(self):\n        return sum(item.price for item in self.items)\n\n    def clear(self):\n        self.items = []';
+    const result = runPipeline(response, context('python', prefix), inlinePipeline);
+    assert.strictEqual(result, 'def total(self):\n        return sum(item.price for item in self.items)');
+  });
+
+  test('keeps a decorator together with the function below it', () => {
+    const prefix = 'class Cart:\n    ';
+    const response = '@property\n    def total(self):\n        return 0\n\n    def clear(self):\n        pass';
+    const result = runPipeline(response, context('python', prefix), inlinePipeline);
+    assert.strictEqual(result, '@property\n    def total(self):\n        return 0');
+  });
+
+  test('keeps an await line', () => {
+    const prefix = 'async function load(url) {\n  const response = ';
+    const result = runPipeline('await fetch(url);', context('javascript', prefix, '\n}'), inlinePipeline);
+    assert.strictEqual(result, 'await fetch(url);');
+  });
+
+  test('takes the code after a think block', () => {
+    const response = '<think>\nThe user is summing two numbers, so I should return a + b.\n</think>\nreturn a + b;';
+    const result = runPipeline(response, context('javascript', 'function add(a, b) {\n  ', '\n}'), inlinePipeline);
+    assert.strictEqual(result, 'return a + b;');
+  });
+
+  test('returns nothing while the model is still thinking', () => {
+    const result = runPipeline('<think>\nLet me look at the loop', context('javascript', '  '), inlinePipeline);
+    assert.strictEqual(result, '');
+  });
+
+  test('takes the code after a stream that starts mid-thought', () => {
+    const result = runPipeline('so it needs a return.\n</think>\n\nreturn a + b;', context('javascript', '  ', '\n}'), inlinePipeline);
+    assert.strictEqual(result, 'return a + b;');
+  });
+
+  test('takes a fenced block and drops the preamble and the explanation', () => {
+    const response = 'Here is the completion for the cursor position:\n\n```javascript\nreturn items.length;\n```\n\nThis returns the number of items.';
+    const result = runPipeline(response, context('javascript', 'function count(items) {\n  ', '\n}'), inlinePipeline);
+    assert.strictEqual(result, 'return items.length;');
+  });
+
+  test('drops a preamble without a fence', () => {
+    const response = 'Sure, here is the missing line.\nconst total = a + b;';
+    const result = runPipeline(response, context('javascript', '  '), inlinePipeline);
+    assert.strictEqual(result, 'const total = a + b;');
+  });
+
+  test('drops lines that repeat the code after the cursor', () => {
+    const prefix = 'function greet(name) {\n  ';
+    const suffix = '\n  return message;\n}';
+    const result = runPipeline('const message = `Hello, ${name}`;\n  return message;\n}', context('javascript', prefix, suffix), inlinePipeline);
+    assert.strictEqual(result, 'const message = `Hello, ${name}`;');
+  });
+
+  test('drops the rest of the cursor line when the completion repeats it', () => {
+    const result = runPipeline('items.map(item => item.id));', context('javascript', 'const ids = ', ');'), inlinePipeline);
+    assert.strictEqual(result, 'items.map(item => item.id)');
+  });
+
+  test('keeps a closing bracket the completion opened itself', () => {
+    const result = runPipeline('if (ready) { start(); }', context('javascript', 'function run() {\n  ', '\n}'), inlinePipeline);
+    assert.strictEqual(result, 'if (ready) { start(); }');
+  });
+
+  test('drops a repeated closer the code after the cursor already has', () => {
+    const result = runPipeline('format(name))', context('javascript', 'console.log(', ')'), inlinePipeline);
+    assert.strictEqual(result, 'format(name)');
+  });
+
+  test('cuts a closer that the code after the cursor already has', () => {
+    const result = runPipeline('a + b)\nfoo();', context('javascript', 'console.log(', ');'), inlinePipeline);
+    assert.strictEqual(result, 'a + b');
+  });
+
+  test('ignores brackets in strings and comments', () => {
+    const result = runPipeline('log(":)"); // (sic', context('javascript', '  '), inlinePipeline);
+    assert.strictEqual(result, 'log(":)"); // (sic');
+  });
+
+  test('strips the typed part of the cursor line when the model repeats it', () => {
+    const result = runPipeline('const total = a + b;', context('javascript', '  const total = '), inlinePipeline);
+    assert.strictEqual(result, 'a + b;');
+  });
+
+  test('strips a repeated partial word', () => {
+    const result = runPipeline('return x;', context('javascript', 'function f(x) {\n  ret', '\n}'), inlinePipeline);
+    assert.strictEqual(result, 'urn x;');
+  });
+
+  test('keeps a word that only starts like the typed one after a space', () => {
+    const result = runPipeline('returnValue + 1;', context('javascript', 'function f() {\n  return ', '\n}'), inlinePipeline);
+    assert.strictEqual(result, 'returnValue + 1;');
+  });
+
+  test('re-indents continuation lines to the cursor line', () => {
+    const prefix = 'function f(items) {\n  ';
+    const result = runPipeline('if (items.length === 0) {\n  return null;\n}', context('javascript', prefix, '\n}'), inlinePipeline);
+    assert.strictEqual(result, 'if (items.length === 0) {\n    return null;\n  }');
+  });
+});
+
+suite('generationPipeline', () => {
+  test('keeps the whole generated function', () => {
+    const response = '```python\n@cache\ndef fib(n):\n    return n if n < 2 else fib(n - 1) + fib(n - 2)\n\n\ndef main():\n    print(fib(10))\n```';
+    const result = runPipeline(response, context('python', ''), generationPipeline);
+    assert.strictEqual(result, '@cache\ndef fib(n):\n    return n if n < 2 else fib(n - 1) + fib(n - 2)\n\n\ndef main():\n    print(fib(10))');
+  });
+
+  test('takes the answer of a reasoning model', () => {
+    const response = '<think>\nThey want email validation. A regex is enough.\n</think>\n\nHere is the function:\n\n```javascript\nfunction isEmail(text) {\n  return /^[^@\\s]+@[^@\\s]+$/.test(text);\n}\n```';
+    const result = runPipeline(response, context('javascript', ''), generationPipeline);
+    assert.strictEqual(result, 'function isEmail(text) {\n  return /^[^@\\s]+@[^@\\s]+$/.test(text);\n}');
+  });
+
+  test('keeps an unterminated fence that ran out of tokens', () => {
+    const result = runPipeline('```go\nfunc add(a, b int) int {\n\treturn a + b', context('go', ''), generationPipeline);
+    assert.strictEqual(result, 'func add(a, b int) int {\n\treturn a + b');
+  });
+
+  test('drops the explanation after the code', () => {
+    const response = 'def square(x):\n    """Return x squared.\n\n    Works for ints and floats.\n    """\n    return x * x\n\nThis function multiplies the number by itself.';
+    const result = runPipeline(response, context('python', ''), generationPipeline);
+    assert.strictEqual(result, 'def square(x):\n    """Return x squared.\n\n    Works for ints and floats.\n    """\n    return x * x');
+  });
+});
+
+suite('replacementPipeline', () => {
+  test('restores the indentation the model dropped', () => {
+    const original = '    if (x) {\n      y();\n    }';
+    const result = runPipeline('```ts\nif (x) {\n  z();\n}\n```', context('typescript', '', '', original), replacementPipeline);
+    assert.strictEqual(result, '    if (x) {\n      z();\n    }');
+  });
+
+  test('keeps the indentation the model already kept', () => {
+    const original = '  return a;';
+    const result = runPipeline('\n  return b;\n', context('typescript', '', '', original), replacementPipeline);
+    assert.strictEqual(result, '  return b;');
+  });
+});
+
+suite('findCompleteBlockEnd', () => {
+  test('ends a single statement at its line', () => {
+    const code = 'return a;\nfoo();\n';
+    assert.strictEqual(findCompleteBlockEnd(code, 0), 'return a;'.length);
+  });
+
+  test('waits for the brackets to close', () => {
+    assert.strictEqual(findCompleteBlockEnd('if (a) {\n  b();\n', 0), -1);
+    const code = 'if (a) {\n  b();\n}\nc();\n';
+    assert.strictEqual(code.substring(0, findCompleteBlockEnd(code, 0)), 'if (a) {\n  b();\n}');
+  });
+
+  test('ends an indented block when the code dedents', () => {
+    const code = 'def f():\n    return 1\n\ndef g():\n';
+    assert.strictEqual(code.substring(0, findCompleteBlockEnd(code, 0)), 'def f():\n    return 1\n\n');
+  });
+
+  test('includes the declaration under a decorator', () => {
+    const code = '@app.route("/")\ndef index():\n    return "ok"\nx = 1\n';
+    assert.strictEqual(code.substring(0, findCompleteBlockEnd(code, 0)), '@app.route("/")\ndef index():\n    return "ok"\n');
+  });
+
+  test('ignores a partial last line', () => {
+    assert.strictEqual(findCompleteBlockEnd('return a', 0), -1);
+  });
+
+  test('stops at a closing fence', () => {
+    const code = '```js\nif (a) {\n```\n';
+    assert.strictEqual(findCompleteBlockEnd(code, 0), '```js\nif (a) {\n'.length);
+  });
+
+  test('skips the explanation before the code', () => {
+    const code = 'Here is the missing line of code.\nreturn a;\n';
+    assert.strictEqual(code.substring(0, findCompleteBlockEnd(code, 0)), 'Here is the missing line of code.\nreturn a;');
+  });
+
+  test('holds back streamed text until the model has finished thinking', () => {
+    assert.strictEqual(isCompleteBlock('<think>\nreturn a;\n', 0), false);
+    assert.strictEqual(isCompleteBlock('<think>hm</think>\nreturn a;\n', 0), true);
+  });
+});
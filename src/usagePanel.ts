@@ -0,0 +1,203 @@
+import * as vscode from 'vscode';
+import { UsageCounters, UsageTracker, addCounters, dayKey, emptyCounters } from './usageTracker';
+import { SuggestionTracker, acceptanceRate as contextAcceptance } from './suggestionTracker';
+import { escapeHtml } from './markdown';
+
+interface Row {
+  label: string;
+  counters: UsageCounters;
+}
+
+const chartDays = 30;
+
+function formatNumber(value: number): string {
+  return value.toLocaleString('en-US');
+}
+
+function tokens(counters: UsageCounters): number {
+  return counters.promptTokens + counters.completionTokens;
+}
+
+function acceptanceRate(counters: UsageCounters): string {
+  return counters.shown > 0 ? `${Math.round(counters.accepted / counters.shown * 100)}%` : '–';
+}
+
+function averageLatency(counters: UsageCounters): string {
+  return counters.requests > 0 ? `${formatNumber(Math.round(counters.latencyMs / counters.requests))} ms` : '–';
+}
+
+function errorCount(counters: UsageCounters): number {
+  return Object.values(counters.errors).reduce((sum, count) => sum + count, 0);
+}
+
+// Shows the locally recorded usage as bar charts and tables; one panel at a time
+export class UsagePanel implements vscode.Disposable {
+  private static current: UsagePanel | undefined;
+
+  private readonly panel: vscode.WebviewPanel;
+  private readonly disposables: vscode.Disposable[] = [];
+
+  public static show(tracker: UsageTracker, suggestions: SuggestionTracker) {
+    if (UsagePanel.current) {
+      UsagePanel.current.panel.reveal();
+      return;
+    }
+    UsagePanel.current = new UsagePanel(tracker, suggestions);
+  }
+
+  private constructor(private readonly tracker: UsageTracker, private readonly suggestions: SuggestionTracker) {
+    this.panel = vscode.window.createWebviewPanel('perpo.usage', 'Perpo Usage', vscode.ViewColumn.Active, {});
+    this.disposables.push(
+      this.panel.onDidDispose(() => this.dispose()),
+      tracker.onDidChange(() => this.render())
+    );
+    this.render();
+  }
+
+  private render() {
+    this.panel.webview.html = this.buildHtml();
+  }
+
+  private buildHtml(): string {
+    const log = this.tracker.entries;
+    const byDay = new Map<string, UsageCounters>();
+    const byModel = new Map<string, UsageCounters>();
+    const byLanguage = new Map<string, UsageCounters>();
+    const total = emptyCounters();
+
+    for (const [day, models] of Object.entries(log)) {
+      for (const [model, languages] of Object.entries(models)) {
+        for (const [language, counters] of Object.entries(languages)) {
+          for (const [map, key] of [[byDay, day], [byModel, model], [byLanguage, language]] as const) {
+            const entry = map.get(key) ?? emptyCounters();
+            addCounters(entry, counters);
+            map.set(key, entry);
+          }
+          addCounters(total, counters);
+        }
+      }
+    }
+
+    // Every one of the last days gets a bar, including the quiet ones
+    const days: Row[] = [];
+    for (let i = chartDays - 1; i >= 0; i--) {
+      const date = new Date();
+      date.setDate(date.getDate() - i);
+      const day = dayKey(date);
+      days.push({ label: day, counters: byDay.get(day) ?? emptyCounters() });
+    }
+
+    const sortByTokens = (map: Map<string, UsageCounters>): Row[] =>
+      [...map].map(([label, counters]) => ({ label, counters })).sort((a, b) => tokens(b.counters) - tokens(a.counters));
+
+    const today = byDay.get(dayKey()) ?? emptyCounters();
+    const budget = this.tracker.budget;
+    const errors = Object.entries(total.errors).sort((a, b) => b[1] - a[1]);
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'unsafe-inline';">
+<title>Perpo Usage</title>
+<style>
+  body { font-family: var(--vscode-font-family); color: var(--vscode-foreground); padding: 0 20px 20px; }
+  h2 { margin-top: 28px; font-weight: 600; }
+  .summary { display: flex; flex-wrap: wrap; gap: 24px; }
+  .summary div { min-width: 120px; }
+  .summary strong { display: block; font-size: 1.6em; }
+  .muted { color: var(--vscode-descriptionForeground); }
+  table { border-collapse: collapse; width: 100%; }
+  th, td { text-align: right; padding: 4px 8px; border-bottom: 1px solid var(--vscode-panel-border); white-space: nowrap; }
+  th:first-child, td:first-child { text-align: left; }
+  td.bar { width: 40%; text-align: left; }
+  .bar span { display: inline-block; height: 10px; background: var(--vscode-charts-blue); }
+  .bar span.over { background: var(--vscode-charts-red); }
+</style>
+</head>
+<body>
+<h1>Perpo Usage</h1>
+<p class="muted">Recorded on this machine only. Token counts come from the API where it reports them and are estimated from the text otherwise. Suggestions that were shown but neither accepted nor partly typed out count as ignored.</p>
+
+<h2>Today</h2>
+<div class="summary">
+  <div><strong>${formatNumber(tokens(today))}</strong><span class="muted">tokens${budget > 0 ? ` of ${formatNumber(budget)} budget` : ''}</span></div>
+  <div><strong>${formatNumber(today.requests)}</strong><span class="muted">requests</span></div>
+  <div><strong>${formatNumber(today.cacheHits)}</strong><span class="muted">cache hits</span></div>
+  <div><strong>${acceptanceRate(today)}</strong><span class="muted">accepted</span></div>
+  <div><strong>${formatNumber(today.partial)}</strong><span class="muted">partly accepted</span></div>
+  <div><strong>${averageLatency(today)}</strong><span class="muted">average latency</span></div>
+  <div><strong>${formatNumber(errorCount(today))}</strong><span class="muted">errors</span></div>
+</div>
+
+<h2>Tokens per Day</h2>
+${this.renderTable(days, budget)}
+
+<h2>By Model</h2>
+${this.renderTable(sortByTokens(byModel))}
+
+<h2>By Language</h2>
+${this.renderTable(sortByTokens(byLanguage))}
+
+<h2>Suggestion Contexts</h2>
+<p class="muted">Recent acceptance by language and cursor position, with older suggestions counting for less. Where it stays low, automatic suggestions wait longer or stop (see <code>perpo.adaptiveTriggering</code>).</p>
+${this.renderContexts()}
+
+<h2>Errors</h2>
+${errors.length > 0
+    ? `<table><tr><th>Status</th><th>Count</th></tr>${errors.map(([status, count]) => `<tr><td>${escapeHtml(status)}</td><td>${formatNumber(count)}</td></tr>`).join('')}</table>`
+    : '<p class="muted">No failed requests recorded.</p>'}
+</body>
+</html>`;
+  }
+
+  // One row per entry with a bar scaled to the largest token count
+  private renderTable(rows: Row[], budget = 0): string {
+    if (rows.length === 0) {
+      return '<p class="muted">Nothing recorded yet.</p>';
+    }
+
+    const max = Math.max(1, budget, ...rows.map(row => tokens(row.counters)));
+    const body = rows.map(({ label, counters }) => {
+      const width = Math.round(tokens(counters) / max * 100);
+      const over = budget > 0 && tokens(counters) >= budget;
+      return `<tr>
+  <td>${escapeHtml(label)}</td>
+  <td class="bar"><span class="${over ? 'over' : ''}" style="width: ${width}%"></span></td>
+  <td>${formatNumber(tokens(counters))}</td>
+  <td>${formatNumber(counters.requests)}</td>
+  <td>${formatNumber(counters.cacheHits)}</td>
+  <td>${formatNumber(counters.accepted)} / ${formatNumber(counters.shown)}</td>
+  <td>${averageLatency(counters)}</td>
+  <td>${formatNumber(errorCount(counters))}</td>
+</tr>`;
+    }).join('\n');
+
+    return `<table>
+<tr><th></th><th></th><th>Tokens</th><th>Requests</th><th>Cache Hits</th><th>Accepted</th><th>Latency</th><th>Errors</th></tr>
+${body}
+</table>`;
+  }
+
+  private renderContexts(): string {
+    const contexts = Object.entries(this.suggestions.statistics).sort((a, b) => b[1].shown - a[1].shown);
+    if (contexts.length === 0) {
+      return '<p class="muted">Nothing recorded yet.</p>';
+    }
+
+    const body = contexts.map(([bucket, outcomes]) => {
+      const [language, position] = bucket.split(':');
+      return `<tr><td>${escapeHtml(language)}</td><td>${escapeHtml(position)}</td><td>${formatNumber(Math.round(outcomes.shown))}</td><td>${Math.round(contextAcceptance(outcomes) * 100)}%</td></tr>`;
+    }).join('\n');
+    return `<table>
+<tr><th>Language</th><th>Position</th><th>Suggestions</th><th>Acceptance</th></tr>
+${body}
+</table>`;
+  }
+
+  public dispose() {
+    UsagePanel.current = undefined;
+    this.disposables.forEach(disposable => disposable.dispose());
+    this.panel.dispose();
+  }
+}
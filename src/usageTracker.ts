@@ -0,0 +1,227 @@
+import * as vscode from 'vscode';
+import { ChatRequest, TokenUsage } from './backends';
+import { estimateTokens } from './contextExtractor';
+
+export interface UsageCounters {
+  requests: number;
+  promptTokens: number;
+  completionTokens: number;
+  // Summed over requests; divide by `requests` for the average
+  latencyMs: number;
+  cacheHits: number;
+  // Failed requests by HTTP status, or 'network' when there was no response
+  errors: Record<string, number>;
+  // Suggestions handed to VS Code, and how many of them the user accepted
+  shown: number;
+  accepted: number;
+  // Shown suggestions that were typed out or accepted word by word, but not in full
+  partial: number;
+}
+
+// One request on its way; counted for the model that answered it, which is the
+// fallback model when the requested one failed
+export interface TrackedRequest {
+  finish(response: string | null): void;
+  fail(status: number | undefined): void;
+}
+
+// Day (YYYY-MM-DD, local time) -> model -> language -> counters
+export type UsageLog = Record<string, Record<string, Record<string, UsageCounters>>>;
+
+const storageKey = 'perpo.usage';
+const retentionDays = 90;
+// Counters change with every suggestion shown, so the log is written at most this often
+const saveDelay = 5000;
+// How often to look whether the day has turned over, which starts today's totals afresh
+const dayCheckInterval = 60 * 1000;
+
+export function emptyCounters(): UsageCounters {
+  return { requests: 0, promptTokens: 0, completionTokens: 0, latencyMs: 0, cacheHits: 0, errors: {}, shown: 0, accepted: 0, partial: 0 };
+}
+
+export function addCounters(total: UsageCounters, counters: UsageCounters) {
+  total.requests += counters.requests;
+  total.promptTokens += counters.promptTokens;
+  total.completionTokens += counters.completionTokens;
+  total.latencyMs += counters.latencyMs;
+  total.cacheHits += counters.cacheHits;
+  total.shown += counters.shown;
+  total.accepted += counters.accepted;
+  // Missing from logs written before it was counted
+  total.partial += counters.partial ?? 0;
+  for (const [status, count] of Object.entries(counters.errors)) {
+    total.errors[status] = (total.errors[status] ?? 0) + count;
+  }
+}
+
+export function dayKey(date = new Date()): string {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+// Local-only accounting of requests, tokens and suggestion outcomes. Nothing
+// here leaves the machine; it lives in the extension's global state.
+export class UsageTracker implements vscode.Disposable {
+  private log: UsageLog;
+  private dailyTokenBudget = 0;
+  private day = dayKey();
+  private saveTimer: NodeJS.Timeout | undefined;
+  private readonly dayTimer: NodeJS.Timeout;
+  private readonly changeEmitter = new vscode.EventEmitter<void>();
+  public readonly onDidChange = this.changeEmitter.event;
+
+  constructor(private readonly storage: vscode.Memento) {
+    this.log = storage.get<UsageLog>(storageKey, {});
+    this.prune();
+    // An interval rather than a timer set for midnight, which a sleeping machine would miss
+    this.dayTimer = setInterval(() => this.checkDay(), dayCheckInterval);
+  }
+
+  public get entries(): UsageLog {
+    return this.log;
+  }
+
+  // Records latency and tokens of one request once it is finished with the response,
+  // or its error once it failed. Without usage from the server, tokens are estimated
+  // from the text.
+  public track(request: ChatRequest, model: string, languageId: string): TrackedRequest {
+    const started = Date.now();
+    let reported: TokenUsage | undefined;
+    request.onUsage = usage => {
+      reported = usage;
+    };
+    request.onModel = answeredBy => {
+      model = answeredBy;
+    };
+
+    return {
+      finish: response => {
+        const usage = reported ?? {
+          promptTokens: estimateTokens(request.messages.map(message => message.content).join('\n')),
+          completionTokens: estimateTokens(response ?? '')
+        };
+        this.recordRequest(model, languageId, Date.now() - started, usage);
+      },
+      fail: status => this.recordError(model, languageId, status)
+    };
+  }
+
+  public recordRequest(model: string, languageId: string, latencyMs: number, usage: TokenUsage) {
+    this.update(model, languageId, counters => {
+      counters.requests++;
+      counters.latencyMs += Math.round(latencyMs);
+      counters.promptTokens += usage.promptTokens;
+      counters.completionTokens += usage.completionTokens;
+    });
+  }
+
+  public recordError(model: string, languageId: string, status: number | undefined) {
+    const key = status ? String(status) : 'network';
+    this.update(model, languageId, counters => {
+      counters.errors[key] = (counters.errors[key] ?? 0) + 1;
+    });
+  }
+
+  public recordCacheHit(model: string, languageId: string) {
+    this.update(model, languageId, counters => counters.cacheHits++);
+  }
+
+  public recordShown(model: string, languageId: string, count: number) {
+    this.update(model, languageId, counters => counters.shown += count);
+  }
+
+  public recordAccepted(model: string, languageId: string) {
+    this.update(model, languageId, counters => counters.accepted++);
+  }
+
+  public recordPartial(model: string, languageId: string) {
+    this.update(model, languageId, counters => counters.partial = (counters.partial ?? 0) + 1);
+  }
+
+  public get tokensToday(): number {
+    let total = 0;
+    for (const languages of Object.values(this.log[dayKey()] ?? {})) {
+      for (const counters of Object.values(languages)) {
+        total += counters.promptTokens + counters.completionTokens;
+      }
+    }
+    return total;
+  }
+
+  // 0 means no budget
+  public setDailyTokenBudget(tokens: number) {
+    this.dailyTokenBudget = Math.max(0, tokens);
+    this.changeEmitter.fire();
+  }
+
+  public get budget(): number {
+    return this.dailyTokenBudget;
+  }
+
+  public isOverBudget(): boolean {
+    return this.dailyTokenBudget > 0 && this.tokensToday >= this.dailyTokenBudget;
+  }
+
+  public async clear() {
+    this.log = {};
+    this.cancelSave();
+    await this.storage.update(storageKey, this.log);
+    this.changeEmitter.fire();
+  }
+
+  private update(model: string, languageId: string, change: (counters: UsageCounters) => void) {
+    const day = dayKey();
+    if (!this.log[day]) {
+      this.log[day] = {};
+      this.prune();
+    }
+    const models = this.log[day];
+    const languages = models[model] ?? (models[model] = {});
+    const counters = languages[languageId] ?? (languages[languageId] = emptyCounters());
+    change(counters);
+
+    if (!this.saveTimer) {
+      this.saveTimer = setTimeout(() => this.save(), saveDelay);
+    }
+    this.changeEmitter.fire();
+  }
+
+  private save() {
+    this.cancelSave();
+    this.storage.update(storageKey, this.log).then(undefined, () => undefined);
+  }
+
+  private cancelSave() {
+    clearTimeout(this.saveTimer);
+    this.saveTimer = undefined;
+  }
+
+  // Tells listeners that today's totals, and so the budget, started over
+  private checkDay() {
+    const day = dayKey();
+    if (day !== this.day) {
+      this.day = day;
+      this.prune();
+      this.changeEmitter.fire();
+    }
+  }
+
+  private prune() {
+    const cutoff = new Date();
+    cutoff.setDate(cutoff.getDate() - retentionDays);
+    const oldest = dayKey(cutoff);
+    for (const day of Object.keys(this.log)) {
+      if (day < oldest) {
+        delete this.log[day];
+      }
+    }
+  }
+
+  public dispose() {
+    clearInterval(this.dayTimer);
+    if (this.saveTimer) {
+      this.save();
+    }
+    this.changeEmitter.dispose();
+  }
+}